@@ -0,0 +1,124 @@
+// Passphrase-encrypted account backups. A backup is a single JSON file:
+//
+//   {
+//     "format": "nofeds-backup",
+//     "version": 1,
+//     "createdAt": "<ISO 8601>",
+//     "kdf": { "name": "PBKDF2-SHA256", "iterations": 600000, "salt": "<base64, 16 bytes>" },
+//     "iv": "<base64, 12 bytes>",
+//     "ciphertext": "<base64 AES-256-GCM of the UTF-8 JSON payload>"
+//   }
+//
+// The AES key is PBKDF2 of the passphrase with the given parameters, and
+// "nofeds-backup:v<version>" plus createdAt are bound as additional data. The
+// payload is opaque here; the app decides what goes in it (see AccountBackup
+// in page.tsx). Version 1 is the first format. A release that changes the
+// layout bumps BACKUP_VERSION and must keep opening every older version, so a
+// backup made today still restores later.
+
+export const BACKUP_FORMAT = "nofeds-backup"
+export const BACKUP_VERSION = 1
+export const BACKUP_PBKDF2_ITERATIONS = 600000
+export const BACKUP_FILE_TYPE = "application/json"
+
+export interface BackupKdfParams {
+  name: "PBKDF2-SHA256"
+  iterations: number
+  salt: string
+}
+
+export interface SealedBackup {
+  format: typeof BACKUP_FORMAT
+  version: number
+  createdAt: string
+  kdf: BackupKdfParams
+  iv: string
+  ciphertext: string
+}
+
+// Built in chunks so a backup with long history doesn't overflow the argument list of fromCharCode
+function toBase64(bytes: Uint8Array): string {
+  let binary = ""
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+function fromBase64(value: string) {
+  const binary = atob(value)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+function associatedData(version: number, createdAt: string) {
+  return new TextEncoder().encode(`${BACKUP_FORMAT}:v${version}:${createdAt}`)
+}
+
+async function deriveBackupKey(passphrase: string, kdf: BackupKdfParams): Promise<CryptoKey> {
+  if (kdf.name !== "PBKDF2-SHA256") throw new Error(`Unsupported backup key derivation ${kdf.name}`)
+
+  const baseKey = await window.crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"],
+  )
+  return window.crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt: fromBase64(kdf.salt), iterations: kdf.iterations, hash: "SHA-256" },
+    baseKey,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"],
+  )
+}
+
+export function isSealedBackup(value: unknown): value is SealedBackup {
+  return !!value && typeof value === "object" && (value as SealedBackup).format === BACKUP_FORMAT
+}
+
+export function backupFileName(nickname: string, date = new Date()): string {
+  const safeName = nickname.replace(/[^a-z0-9_-]+/gi, "-") || "account"
+  return `nofeds-backup-${safeName}-${date.toISOString().slice(0, 10)}.json`
+}
+
+export async function sealBackup<T>(payload: T, passphrase: string): Promise<SealedBackup> {
+  const kdf: BackupKdfParams = {
+    name: "PBKDF2-SHA256",
+    iterations: BACKUP_PBKDF2_ITERATIONS,
+    salt: toBase64(window.crypto.getRandomValues(new Uint8Array(16))),
+  }
+  const createdAt = new Date().toISOString()
+  const iv = window.crypto.getRandomValues(new Uint8Array(12))
+  const encrypted = await window.crypto.subtle.encrypt(
+    { name: "AES-GCM", iv, additionalData: associatedData(BACKUP_VERSION, createdAt) },
+    await deriveBackupKey(passphrase, kdf),
+    new TextEncoder().encode(JSON.stringify(payload)),
+  )
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt,
+    kdf,
+    iv: toBase64(iv),
+    ciphertext: toBase64(new Uint8Array(encrypted)),
+  }
+}
+
+// Throws if the file isn't a backup we can read, the passphrase is wrong or the file was altered
+export async function openBackup<T>(sealed: unknown, passphrase: string): Promise<T> {
+  if (!isSealedBackup(sealed)) throw new Error("Not a NoFeds backup file")
+  if (sealed.version > BACKUP_VERSION) throw new Error("This backup was made by a newer version of NoFeds")
+
+  const decrypted = await window.crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: fromBase64(sealed.iv), additionalData: associatedData(sealed.version, sealed.createdAt) },
+    await deriveBackupKey(passphrase, sealed.kdf),
+    fromBase64(sealed.ciphertext),
+  )
+  return JSON.parse(new TextDecoder().decode(decrypted))
+}
@@ -0,0 +1,119 @@
+// Encrypted file attachments. Each file gets its own AES-GCM key and is
+// encrypted in fixed-size chunks; the key and file details travel inside the
+// encrypted chat message, while the chunks are stored separately so the
+// message itself stays small. Each chunk's index and the chunk count are bound
+// as additional data, so chunks can't be reordered, swapped or dropped.
+
+export const ATTACHMENT_CHUNK_SIZE = 64 * 1024
+// Everything lands in localStorage, which browsers cap at a few megabytes
+export const MAX_ATTACHMENT_SIZE = 2 * 1024 * 1024
+
+// What the encrypted message carries for each attachment
+export interface AttachmentRef {
+  id: string
+  name: string
+  type: string
+  size: number
+  key: string // base64 raw AES-256-GCM key for this file only
+  chunkCount: number
+}
+
+export interface EncryptedAttachment {
+  ref: AttachmentRef
+  chunks: string[] // base64 IV || ciphertext per chunk
+}
+
+const IV_LENGTH = 12
+
+// Built in chunks so large files don't overflow the argument list of fromCharCode
+function toBase64(bytes: Uint8Array): string {
+  let binary = ""
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+function fromBase64(value: string) {
+  const binary = atob(value)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+function chunkAdditionalData(attachmentId: string, index: number, chunkCount: number) {
+  return new TextEncoder().encode(JSON.stringify(["nofeds-attachment", attachmentId, index, chunkCount]))
+}
+
+export function isImageAttachment(ref: AttachmentRef): boolean {
+  return ref.type.startsWith("image/")
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+export async function encryptAttachment(file: File): Promise<EncryptedAttachment> {
+  if (file.size > MAX_ATTACHMENT_SIZE) throw new Error(`${file.name} is larger than ${formatFileSize(MAX_ATTACHMENT_SIZE)}`)
+
+  const id = window.crypto.randomUUID()
+  const key = await window.crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, true, ["encrypt"])
+  const data = new Uint8Array(await file.arrayBuffer())
+  const chunkCount = Math.max(1, Math.ceil(data.length / ATTACHMENT_CHUNK_SIZE))
+
+  const chunks: string[] = []
+  for (let index = 0; index < chunkCount; index++) {
+    const iv = window.crypto.getRandomValues(new Uint8Array(IV_LENGTH))
+    const encrypted = await window.crypto.subtle.encrypt(
+      { name: "AES-GCM", iv, additionalData: chunkAdditionalData(id, index, chunkCount) },
+      key,
+      data.subarray(index * ATTACHMENT_CHUNK_SIZE, (index + 1) * ATTACHMENT_CHUNK_SIZE),
+    )
+
+    const combined = new Uint8Array(iv.length + encrypted.byteLength)
+    combined.set(iv)
+    combined.set(new Uint8Array(encrypted), iv.length)
+    chunks.push(toBase64(combined))
+  }
+
+  return {
+    ref: {
+      id,
+      name: file.name,
+      type: file.type || "application/octet-stream",
+      size: file.size,
+      key: toBase64(new Uint8Array(await window.crypto.subtle.exportKey("raw", key))),
+      chunkCount,
+    },
+    chunks,
+  }
+}
+
+// Throws if any chunk is missing, out of place or has been tampered with
+export async function decryptAttachment(ref: AttachmentRef, chunks: string[]): Promise<Blob> {
+  if (chunks.length !== ref.chunkCount) throw new Error("Attachment is incomplete")
+
+  const key = await window.crypto.subtle.importKey("raw", fromBase64(ref.key), { name: "AES-GCM" }, false, [
+    "decrypt",
+  ])
+  const parts: ArrayBuffer[] = []
+  for (let index = 0; index < chunks.length; index++) {
+    const combined = fromBase64(chunks[index])
+    parts.push(
+      await window.crypto.subtle.decrypt(
+        {
+          name: "AES-GCM",
+          iv: combined.slice(0, IV_LENGTH),
+          additionalData: chunkAdditionalData(ref.id, index, ref.chunkCount),
+        },
+        key,
+        combined.slice(IV_LENGTH),
+      ),
+    )
+  }
+  return new Blob(parts, { type: ref.type })
+}
@@ -0,0 +1,106 @@
+// Limits password guesses with exponential backoff and temporary lockouts.
+// Records live in localStorage rather than component state, so every tab of
+// this browser shares them and opening a new tab doesn't reset the count.
+// A script that edits localStorage can still clear them; this only slows down
+// guessing through the app itself.
+
+export const ATTEMPT_STORAGE_KEY = "nofeds-attempts"
+// Failures allowed before any delay, to forgive typos
+export const FREE_ATTEMPTS = 3
+export const BASE_BACKOFF = 1000
+export const MAX_BACKOFF = 5 * 60 * 1000
+// Every this many failures in a row the delay becomes a full lockout
+export const LOCKOUT_THRESHOLD = 10
+export const LOCKOUT_DURATION = 60 * 60 * 1000
+// A record nobody has failed against for this long is forgotten
+const RECORD_TTL = 24 * 60 * 60 * 1000
+
+interface AttemptRecord {
+  failures: number
+  lastFailure: number
+  retryAt: number
+}
+
+type AttemptRecords = { [key: string]: AttemptRecord }
+
+export const loginAttemptKey = (nickname: string) => `login:${nickname.trim()}`
+export const roomAttemptKey = (roomId: string) => `room:${roomId}`
+// Unlock PIN guesses are counted apart from password guesses, since the PIN gives up after a few
+export const pinAttemptKey = (accountId: string) => `pin:${accountId}`
+
+function readRecords(now: number): AttemptRecords {
+  try {
+    const stored = JSON.parse(localStorage.getItem(ATTEMPT_STORAGE_KEY) || "{}")
+    const records: AttemptRecords = {}
+    Object.entries(stored as AttemptRecords).forEach(([key, record]) => {
+      if (now - record.lastFailure < RECORD_TTL || record.retryAt > now) records[key] = record
+    })
+    return records
+  } catch {
+    return {}
+  }
+}
+
+function writeRecords(records: AttemptRecords) {
+  try {
+    if (Object.keys(records).length === 0) localStorage.removeItem(ATTEMPT_STORAGE_KEY)
+    else localStorage.setItem(ATTEMPT_STORAGE_KEY, JSON.stringify(records))
+  } catch (error) {
+    console.error("[v0] Failed to save attempt records:", error)
+  }
+}
+
+export function backoffDelay(failures: number): number {
+  if (failures > 0 && failures % LOCKOUT_THRESHOLD === 0) return LOCKOUT_DURATION
+  if (failures < FREE_ATTEMPTS) return 0
+  return Math.min(BASE_BACKOFF * 2 ** (failures - FREE_ATTEMPTS), MAX_BACKOFF)
+}
+
+// Milliseconds until the next attempt is allowed; 0 means try now
+export function retryDelay(key: string, now = Date.now()): number {
+  const record = readRecords(now)[key]
+  return record ? Math.max(0, record.retryAt - now) : 0
+}
+
+// Failures in a row recorded against the key, including attempts still being checked
+export function failureCount(key: string, now = Date.now()): number {
+  return readRecords(now)[key]?.failures ?? 0
+}
+
+// Returns how long the caller now has to wait
+export function recordFailure(key: string, now = Date.now()): number {
+  const records = readRecords(now)
+  const failures = (records[key]?.failures ?? 0) + 1
+  const delay = backoffDelay(failures)
+  records[key] = { failures, lastFailure: now, retryAt: now + delay }
+  writeRecords(records)
+  return delay
+}
+
+// Counts the attempt as failed before the caller checks the guess, so guesses still being verified here or in
+// another tab are throttled too; recordSuccess clears it. Returns the wait instead when one is due
+export function beginAttempt(key: string, now = Date.now()): number {
+  const delay = retryDelay(key, now)
+  if (delay > 0) return delay
+  recordFailure(key, now)
+  return 0
+}
+
+export function recordSuccess(key: string, now = Date.now()) {
+  const records = readRecords(now)
+  delete records[key]
+  writeRecords(records)
+}
+
+export function clearAttempts() {
+  localStorage.removeItem(ATTEMPT_STORAGE_KEY)
+}
+
+export function formatRetryDelay(ms: number): string {
+  const seconds = Math.ceil(ms / 1000)
+  if (seconds < 60) return `${seconds}s`
+  const minutes = Math.floor(seconds / 60)
+  if (minutes < 60) return seconds % 60 ? `${minutes}m ${seconds % 60}s` : `${minutes}m`
+  const hours = Math.floor(minutes / 60)
+  return minutes % 60 ? `${hours}h ${minutes % 60}m` : `${hours}h`
+}
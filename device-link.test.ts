@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest"
+import {
+  acceptLinkRequest,
+  createLinkCode,
+  createLinkRequest,
+  createLinkSession,
+  LINK_CODE_LENGTH,
+  linkCodeUri,
+  openLinkResponse,
+  parseLinkCode,
+} from "@/lib/device-link"
+
+const device = { deviceId: "device-1", keys: { publicKey: "new-device-key" } }
+const bundle = { account: "alice", keys: "wrapped" }
+
+describe("link codes", () => {
+  it("creates digit codes that parse back from the QR payload", () => {
+    const code = createLinkCode()
+    expect(code).toMatch(new RegExp(`^\\d{${LINK_CODE_LENGTH}}$`))
+    expect(parseLinkCode(linkCodeUri(code))).toBe(code)
+    expect(parseLinkCode(` ${code} `)).toBe(code)
+    expect(parseLinkCode("1234")).toBeNull()
+  })
+})
+
+describe("pairing", () => {
+  it("hands the bundle to the device that knows the code, built for the keys it sent", async () => {
+    const code = createLinkCode()
+    const existing = await createLinkSession(code)
+    const requester = await createLinkSession(code)
+
+    const request = await createLinkRequest(requester, device)
+    let vouchedFor: unknown
+    const response = await acceptLinkRequest(existing, request, async (sent) => {
+      vouchedFor = sent
+      return bundle
+    })
+    expect(vouchedFor).toEqual(device)
+    expect(await openLinkResponse(requester, response)).toEqual(bundle)
+  })
+
+  it("refuses a wrong code and spends the session", async () => {
+    const existing = await createLinkSession("12345678")
+    const request = await createLinkRequest(await createLinkSession("87654321"), device)
+    await expect(acceptLinkRequest(existing, request, async () => bundle)).rejects.toThrow("does not match")
+
+    const retry = await createLinkRequest(await createLinkSession("12345678"), device)
+    await expect(acceptLinkRequest(existing, retry, async () => bundle)).rejects.toThrow("already used")
+  })
+
+  it("refuses device keys swapped in after the proof was made", async () => {
+    const existing = await createLinkSession("12345678")
+    const request = await createLinkRequest(await createLinkSession("12345678"), device)
+    const swapped = { ...request, device: { ...device, keys: { publicKey: "attacker-key" } } }
+    await expect(acceptLinkRequest(existing, swapped, async () => bundle)).rejects.toThrow("does not match")
+  })
+})
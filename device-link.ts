@@ -0,0 +1,227 @@
+// Pairing protocol for linking a second device to an account. The existing
+// device shows a one-time code (as a QR code or digits); the new device types
+// or scans it. Both sides then run an ephemeral ECDH exchange over the sync
+// transport, authenticated by the code:
+//
+//   new -> existing  request  { devicePub, device, proof = HMAC(codeKey, [devicePub, device]) }
+//   existing -> new  response { devicePub, requestPub, AES-GCM(sessionKey, bundle) }
+//
+// `device` is whatever public information the new device wants vouched for,
+// such as the identity keys it made for itself; the proof ties it to the code.
+//
+// codeKey = PBKDF2(code, devicePub of the request), and
+// sessionKey = HKDF(ECDH secret, salt = codeKey, info = transcript).
+// The existing device only answers a request with a valid proof, and a session
+// is spent after one request, so a guessed code gets a single try. Someone
+// watching the transport never learns the ECDH secret, so the bundle stays
+// sealed even if they later brute-force the code.
+
+export const LINK_FORMAT = "nofeds-link"
+export const LINK_CODE_LENGTH = 8
+export const LINK_SESSION_TTL = 5 * 60 * 1000
+const LINK_PBKDF2_ITERATIONS = 600000
+
+export interface LinkRequest<D = unknown> {
+  format: typeof LINK_FORMAT
+  step: "request"
+  devicePub: string
+  device: D
+  proof: string
+}
+
+export interface LinkResponse {
+  format: typeof LINK_FORMAT
+  step: "response"
+  devicePub: string
+  requestPub: string
+  iv: string
+  ciphertext: string
+}
+
+export type LinkMessage = LinkRequest | LinkResponse
+
+export interface LinkSession {
+  code: string
+  keyPair: CryptoKeyPair
+  publicKey: string
+  expiresAt: number
+  used: boolean
+}
+
+// Built in chunks so a large bundle doesn't overflow the argument list of fromCharCode
+function toBase64(bytes: Uint8Array): string {
+  let binary = ""
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+function fromBase64(value: string) {
+  const binary = atob(value)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+export function isLinkMessage(value: unknown): value is LinkMessage {
+  return typeof value === "object" && value !== null && (value as LinkMessage).format === LINK_FORMAT
+}
+
+// Uniform random digits; bytes above 249 are redrawn so every digit is equally likely
+export function createLinkCode(): string {
+  let code = ""
+  while (code.length < LINK_CODE_LENGTH) {
+    const [byte] = window.crypto.getRandomValues(new Uint8Array(1))
+    if (byte < 250) code += String(byte % 10)
+  }
+  return code
+}
+
+export function linkCodeUri(code: string): string {
+  return `nofeds://link?code=${code}`
+}
+
+// Accepts the QR payload or the bare digits
+export function parseLinkCode(value: string): string | null {
+  const trimmed = value.trim()
+  const code = trimmed.startsWith("nofeds://link") ? new URL(trimmed).searchParams.get("code") || "" : trimmed
+  return new RegExp(`^\\d{${LINK_CODE_LENGTH}}$`).test(code) ? code : null
+}
+
+export async function createLinkSession(code: string): Promise<LinkSession> {
+  const keyPair = await window.crypto.subtle.generateKey({ name: "ECDH", namedCurve: "P-256" }, false, ["deriveBits"])
+  const publicKey = toBase64(new Uint8Array(await window.crypto.subtle.exportKey("spki", keyPair.publicKey)))
+  return { code, keyPair, publicKey, expiresAt: Date.now() + LINK_SESSION_TTL, used: false }
+}
+
+async function deriveCodeKey(code: string, requestPub: string): Promise<Uint8Array> {
+  const baseKey = await window.crypto.subtle.importKey("raw", new TextEncoder().encode(code), "PBKDF2", false, [
+    "deriveBits",
+  ])
+  const bits = await window.crypto.subtle.deriveBits(
+    {
+      name: "PBKDF2",
+      salt: new TextEncoder().encode(`${LINK_FORMAT}:${requestPub}`),
+      iterations: LINK_PBKDF2_ITERATIONS,
+      hash: "SHA-256",
+    },
+    baseKey,
+    256,
+  )
+  return new Uint8Array(bits)
+}
+
+function importProofKey(codeKey: Uint8Array, usage: "sign" | "verify") {
+  return window.crypto.subtle.importKey("raw", new Uint8Array(codeKey), { name: "HMAC", hash: "SHA-256" }, false, [
+    usage,
+  ])
+}
+
+async function deriveSessionKey(
+  session: LinkSession,
+  theirPub: string,
+  codeKey: Uint8Array,
+  transcript: Uint8Array,
+): Promise<CryptoKey> {
+  const theirKey = await window.crypto.subtle.importKey(
+    "spki",
+    fromBase64(theirPub),
+    { name: "ECDH", namedCurve: "P-256" },
+    false,
+    [],
+  )
+  const sharedSecret = await window.crypto.subtle.deriveBits(
+    { name: "ECDH", public: theirKey },
+    session.keyPair.privateKey,
+    256,
+  )
+  const hkdfKey = await window.crypto.subtle.importKey("raw", sharedSecret, "HKDF", false, ["deriveKey"])
+  return window.crypto.subtle.deriveKey(
+    { name: "HKDF", hash: "SHA-256", salt: new Uint8Array(codeKey), info: new Uint8Array(transcript) },
+    hkdfKey,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"],
+  )
+}
+
+const linkTranscript = (existingPub: string, requestPub: string) =>
+  new TextEncoder().encode(JSON.stringify([LINK_FORMAT, 2, existingPub, requestPub]))
+
+const proofPayload = (devicePub: string, device: unknown) => new TextEncoder().encode(JSON.stringify([devicePub, device]))
+
+// New device: prove we know the code without revealing it, and that `device` came from us
+export async function createLinkRequest<D>(session: LinkSession, device: D): Promise<LinkRequest<D>> {
+  const codeKey = await deriveCodeKey(session.code, session.publicKey)
+  const proof = await window.crypto.subtle.sign(
+    "HMAC",
+    await importProofKey(codeKey, "sign"),
+    proofPayload(session.publicKey, device),
+  )
+  return {
+    format: LINK_FORMAT,
+    step: "request",
+    devicePub: session.publicKey,
+    device,
+    proof: toBase64(new Uint8Array(proof)),
+  }
+}
+
+// Existing device: check the proof, then seal the bundle built for the requester's `device`. The session is spent
+// either way
+export async function acceptLinkRequest<T>(
+  session: LinkSession,
+  request: LinkRequest,
+  createBundle: (device: unknown) => Promise<T>,
+): Promise<LinkResponse> {
+  if (session.used) throw new Error("Pairing code already used")
+  if (Date.now() > session.expiresAt) throw new Error("Pairing code expired")
+  session.used = true
+
+  const codeKey = await deriveCodeKey(session.code, request.devicePub)
+  const proofValid = await window.crypto.subtle.verify(
+    "HMAC",
+    await importProofKey(codeKey, "verify"),
+    fromBase64(request.proof),
+    proofPayload(request.devicePub, request.device),
+  )
+  if (!proofValid) throw new Error("Pairing code does not match")
+
+  const bundle = await createBundle(request.device)
+
+  const transcript = linkTranscript(session.publicKey, request.devicePub)
+  const sessionKey = await deriveSessionKey(session, request.devicePub, codeKey, transcript)
+  const iv = window.crypto.getRandomValues(new Uint8Array(12))
+  const ciphertext = await window.crypto.subtle.encrypt(
+    { name: "AES-GCM", iv, additionalData: transcript },
+    sessionKey,
+    new TextEncoder().encode(JSON.stringify(bundle)),
+  )
+
+  return {
+    format: LINK_FORMAT,
+    step: "response",
+    devicePub: session.publicKey,
+    requestPub: request.devicePub,
+    iv: toBase64(iv),
+    ciphertext: toBase64(new Uint8Array(ciphertext)),
+  }
+}
+
+// New device: throws unless the response came from a device that knows the code
+export async function openLinkResponse<T>(session: LinkSession, response: LinkResponse): Promise<T> {
+  if (response.requestPub !== session.publicKey) throw new Error("Response is for another pairing")
+
+  const codeKey = await deriveCodeKey(session.code, session.publicKey)
+  const transcript = linkTranscript(response.devicePub, session.publicKey)
+  const sessionKey = await deriveSessionKey(session, response.devicePub, codeKey, transcript)
+  const plaintext = await window.crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: fromBase64(response.iv), additionalData: transcript },
+    sessionKey,
+    fromBase64(response.ciphertext),
+  )
+  return JSON.parse(new TextDecoder().decode(plaintext))
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest"
+import { HYBRID_PREFIX, hybridOpen, hybridSeal, isHybridSealed, type HybridIdentity } from "@/lib/hybrid-kem"
+import { mlKemKeygen } from "@/lib/ml-kem"
+
+const toBase64 = (bytes: ArrayBuffer | Uint8Array) => Buffer.from(new Uint8Array(bytes)).toString("base64")
+
+async function createIdentity(): Promise<HybridIdentity> {
+  const agreement = await crypto.subtle.generateKey({ name: "ECDH", namedCurve: "P-256" }, false, ["deriveBits"])
+  const kem = mlKemKeygen()
+  return {
+    agreementKey: toBase64(await crypto.subtle.exportKey("spki", agreement.publicKey)),
+    agreementPrivateKey: agreement.privateKey,
+    kemKey: toBase64(kem.publicKey),
+    kemSecretKey: kem.secretKey,
+  }
+}
+
+// Flip one bit of the decoded payload at `offset`
+function tamper(sealed: string, offset: number) {
+  const bytes = Buffer.from(sealed.slice(HYBRID_PREFIX.length), "base64")
+  bytes[offset] ^= 1
+  return HYBRID_PREFIX + bytes.toString("base64")
+}
+
+describe("hybrid key wrapping", async () => {
+  const alice = await createIdentity()
+  const mallory = await createIdentity()
+  const roomKey = crypto.getRandomValues(new Uint8Array(32))
+  const context = "room-key:room-1#0"
+
+  it("opens what was sealed for the recipient", async () => {
+    const sealed = await hybridSeal(roomKey, alice, context)
+    expect(isHybridSealed(sealed)).toBe(true)
+    expect(await hybridOpen(sealed, alice, context)).toEqual(roomKey)
+  })
+
+  it("uses a fresh ephemeral key and encapsulation every time", async () => {
+    const first = await hybridSeal(roomKey, alice, context)
+    const second = await hybridSeal(roomKey, alice, context)
+    expect(first).not.toBe(second)
+  })
+
+  it("can't be told apart from RSA-OAEP output by accident", () => {
+    expect(isHybridSealed(toBase64(crypto.getRandomValues(new Uint8Array(256))))).toBe(false)
+  })
+
+  it("rejects another recipient", async () => {
+    const sealed = await hybridSeal(roomKey, alice, context)
+    await expect(hybridOpen(sealed, mallory, context)).rejects.toThrow()
+  })
+
+  it("rejects another context", async () => {
+    const sealed = await hybridSeal(roomKey, alice, context)
+    await expect(hybridOpen(sealed, alice, "room-key:room-1#1")).rejects.toThrow()
+    await expect(hybridOpen(sealed, alice, "sender-key:room-1|alice")).rejects.toThrow()
+  })
+
+  it("rejects tampering with any part", async () => {
+    const sealed = await hybridSeal(roomKey, alice, context)
+    // Ephemeral point, ML-KEM ciphertext, IV, AES-GCM ciphertext and tag
+    for (const offset of [1, 64, 65, 600, 1152, 1153, 1164, 1170, 1195]) {
+      await expect(hybridOpen(tamper(sealed, offset), alice, context)).rejects.toThrow()
+    }
+  })
+
+  it("rejects truncated and unprefixed input", async () => {
+    const sealed = await hybridSeal(roomKey, alice, context)
+    await expect(hybridOpen(sealed.slice(0, 200), alice, context)).rejects.toThrow("truncated")
+    await expect(hybridOpen(sealed.slice(HYBRID_PREFIX.length), alice, context)).rejects.toThrow()
+  })
+
+  it("rejects a wrap whose recipient keys were swapped for someone else's", async () => {
+    // Same secrets, but the key derivation binds the recipient's published keys
+    const sealed = await hybridSeal(roomKey, alice, context)
+    const impostor = { ...alice, kemKey: mallory.kemKey }
+    await expect(hybridOpen(sealed, impostor, context)).rejects.toThrow()
+  })
+})
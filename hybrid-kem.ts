@@ -0,0 +1,152 @@
+// Hybrid key encapsulation for keys sent to a single contact (room keys and
+// sender keys). Each wrap runs an ephemeral P-256 ECDH against the contact's
+// agreement key and an ML-KEM-768 encapsulation against their KEM key, and the
+// wrapping key is derived from both secrets together. A recorded wrap stays
+// sealed unless both are broken, so traffic harvested now can't be opened by a
+// future quantum computer that only breaks the elliptic curve.
+//
+// Sealed form, the prefix keeps it apart from RSA-OAEP output (":" is not in
+// the base64 alphabet):
+//
+//   "hpq1:" base64( ephemeral P-256 point (65) | ML-KEM ciphertext (1088) | IV (12) | AES-GCM ciphertext )
+
+import { ML_KEM_768, mlKemCiphertextLength, mlKemDecapsulate, mlKemEncapsulate } from "@/lib/ml-kem"
+
+export const HYBRID_PREFIX = "hpq1:"
+
+const HYBRID_LABEL = "nofeds-hybrid-p256-mlkem768-v1"
+const EC_POINT_LENGTH = 65
+const IV_LENGTH = 12
+
+// What a contact publishes for hybrid wraps, both base64
+export interface HybridRecipient {
+  agreementKey: string // SPKI of their ECDH P-256 key
+  kemKey: string // Their ML-KEM-768 encapsulation key
+}
+
+// Our side, to open wraps sent to the keys we published
+export interface HybridIdentity extends HybridRecipient {
+  agreementPrivateKey: CryptoKey
+  kemSecretKey: Uint8Array
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = ""
+  // Chunked, an ML-KEM ciphertext is too long to spread into one call
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  return btoa(binary)
+}
+
+function fromBase64(value: string) {
+  return new Uint8Array(
+    atob(value)
+      .split("")
+      .map((c) => c.charCodeAt(0)),
+  )
+}
+
+function concatBytes(...parts: Uint8Array[]) {
+  const result = new Uint8Array(parts.reduce((length, part) => length + part.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    result.set(part, offset)
+    offset += part.length
+  }
+  return result
+}
+
+export const isHybridSealed = (value: string) => value.startsWith(HYBRID_PREFIX)
+
+// Both secrets feed one HKDF; the info binds a hash of the ciphertexts and the recipient's keys so
+// neither half can be swapped for another wrap's or retargeted at another contact
+async function deriveWrappingKey(
+  ecdhSecret: Uint8Array,
+  kemSecret: Uint8Array,
+  ephemeralPoint: Uint8Array,
+  kemCiphertext: Uint8Array,
+  recipient: HybridRecipient,
+): Promise<CryptoKey> {
+  const transcript = await window.crypto.subtle.digest(
+    "SHA-256",
+    concatBytes(ephemeralPoint, kemCiphertext, fromBase64(recipient.agreementKey), fromBase64(recipient.kemKey)),
+  )
+  const hkdfKey = await window.crypto.subtle.importKey("raw", concatBytes(ecdhSecret, kemSecret), "HKDF", false, [
+    "deriveKey",
+  ])
+  return window.crypto.subtle.deriveKey(
+    {
+      name: "HKDF",
+      hash: "SHA-256",
+      salt: new Uint8Array(32),
+      info: concatBytes(new TextEncoder().encode(HYBRID_LABEL), new Uint8Array(transcript)),
+    },
+    hkdfKey,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"],
+  )
+}
+
+// `context` names what is being wrapped (room and epoch, say) and has to match when opening
+export async function hybridSeal(
+  plaintext: BufferSource,
+  recipient: HybridRecipient,
+  context: string,
+): Promise<string> {
+  const theirKey = await window.crypto.subtle.importKey(
+    "spki",
+    fromBase64(recipient.agreementKey),
+    { name: "ECDH", namedCurve: "P-256" },
+    false,
+    [],
+  )
+  const ephemeral = await window.crypto.subtle.generateKey({ name: "ECDH", namedCurve: "P-256" }, true, [
+    "deriveBits",
+  ])
+  const ephemeralPoint = new Uint8Array(await window.crypto.subtle.exportKey("raw", ephemeral.publicKey))
+  const ecdhSecret = new Uint8Array(
+    await window.crypto.subtle.deriveBits({ name: "ECDH", public: theirKey }, ephemeral.privateKey, 256),
+  )
+  const { ciphertext: kemCiphertext, sharedSecret } = mlKemEncapsulate(fromBase64(recipient.kemKey))
+
+  const key = await deriveWrappingKey(ecdhSecret, sharedSecret, ephemeralPoint, kemCiphertext, recipient)
+  const iv = window.crypto.getRandomValues(new Uint8Array(IV_LENGTH))
+  const sealed = await window.crypto.subtle.encrypt(
+    { name: "AES-GCM", iv, additionalData: new TextEncoder().encode(context) },
+    key,
+    plaintext,
+  )
+  return HYBRID_PREFIX + toBase64(concatBytes(ephemeralPoint, kemCiphertext, iv, new Uint8Array(sealed)))
+}
+
+export async function hybridOpen(sealed: string, identity: HybridIdentity, context: string) {
+  if (!isHybridSealed(sealed)) throw new Error("Not a hybrid-sealed key")
+
+  const bytes = fromBase64(sealed.slice(HYBRID_PREFIX.length))
+  const kemEnd = EC_POINT_LENGTH + mlKemCiphertextLength(ML_KEM_768)
+  if (bytes.length < kemEnd + IV_LENGTH + 16) throw new Error("Hybrid-sealed key is truncated")
+
+  const ephemeralPoint = bytes.slice(0, EC_POINT_LENGTH)
+  const kemCiphertext = bytes.slice(EC_POINT_LENGTH, kemEnd)
+  const iv = bytes.slice(kemEnd, kemEnd + IV_LENGTH)
+
+  const ephemeralKey = await window.crypto.subtle.importKey(
+    "raw",
+    ephemeralPoint,
+    { name: "ECDH", namedCurve: "P-256" },
+    false,
+    [],
+  )
+  const ecdhSecret = new Uint8Array(
+    await window.crypto.subtle.deriveBits({ name: "ECDH", public: ephemeralKey }, identity.agreementPrivateKey, 256),
+  )
+  const kemSecret = mlKemDecapsulate(kemCiphertext, identity.kemSecretKey)
+
+  const key = await deriveWrappingKey(ecdhSecret, kemSecret, ephemeralPoint, kemCiphertext, identity)
+  const opened = await window.crypto.subtle.decrypt(
+    { name: "AES-GCM", iv, additionalData: new TextEncoder().encode(context) },
+    key,
+    bytes.slice(kemEnd + IV_LENGTH),
+  )
+  return new Uint8Array(opened)
+}
@@ -0,0 +1,214 @@
+// Account identity keys live in IndexedDB rather than localStorage. CryptoKey
+// objects are structured-cloneable, so a non-extractable private key can be
+// stored and reloaded without ever being exposed to script.
+
+const DB_NAME = "nofeds-keys"
+const DB_VERSION = 4
+const IDENTITY_STORE = "identity-keys"
+// Sender-key chain states are raw key bytes, so they get their own store keyed by account
+const SENDER_CHAIN_STORE = "sender-chains"
+// The contacts' keys this device has seen, see lib/trust-ledger
+const TRUST_LEDGER_STORE = "trust-ledgers"
+// Sender-key message keys are gone once used, so what they opened is kept here, one sealed record per message
+const PLAINTEXT_STORE = "plaintexts"
+
+// The ECDSA signing and ECDH agreement pairs sit next to the RSA-OAEP pair under suffixed keys
+const signingKeyId = (accountId: string) => `${accountId}#signing`
+const agreementKeyId = (accountId: string) => `${accountId}#agreement`
+// ML-KEM has no CryptoKey type, so its 64-byte seed is stored as bytes; see lib/ml-kem
+const kemSeedId = (accountId: string) => `${accountId}#kem`
+// Set on devices linked to an account after its first; their keys are their own, vouched for by the first device
+const deviceIdId = (accountId: string) => `${accountId}#device`
+// Non-extractable AES key the plaintext records are sealed with
+const plaintextKeyId = (accountId: string) => `${accountId}#plaintexts`
+// The sync group's transport key is per device rather than per account, see RealTimeSync.setSyncPassphrase
+const syncKeyId = (group: string) => `sync#${group}`
+const plaintextRange = (accountId: string) => IDBKeyRange.bound(`${accountId}|`, `${accountId}|\uffff`)
+
+export interface SealedPlaintext {
+  messageId: string
+  iv: Uint8Array
+  ciphertext: ArrayBuffer
+}
+
+function openKeyDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(IDENTITY_STORE)) {
+        request.result.createObjectStore(IDENTITY_STORE)
+      }
+      if (!request.result.objectStoreNames.contains(SENDER_CHAIN_STORE)) {
+        request.result.createObjectStore(SENDER_CHAIN_STORE)
+      }
+      if (!request.result.objectStoreNames.contains(TRUST_LEDGER_STORE)) {
+        request.result.createObjectStore(TRUST_LEDGER_STORE)
+      }
+      if (!request.result.objectStoreNames.contains(PLAINTEXT_STORE)) {
+        request.result.createObjectStore(PLAINTEXT_STORE)
+      }
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openKeyDatabase()
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = action(db.transaction(storeName, mode).objectStore(storeName))
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+  } finally {
+    db.close()
+  }
+}
+
+export async function loadIdentityKeyPair(accountId: string): Promise<CryptoKeyPair | null> {
+  const stored = await withStore<CryptoKeyPair | undefined>(IDENTITY_STORE, "readonly", (store) =>
+    store.get(accountId),
+  )
+  return stored || null
+}
+
+export async function saveIdentityKeyPair(accountId: string, keyPair: CryptoKeyPair): Promise<void> {
+  await withStore(IDENTITY_STORE, "readwrite", (store) => store.put(keyPair, accountId))
+}
+
+export async function deleteIdentityKeyPair(accountId: string): Promise<void> {
+  await withStore(IDENTITY_STORE, "readwrite", (store) => store.delete(accountId))
+  await withStore(IDENTITY_STORE, "readwrite", (store) => store.delete(signingKeyId(accountId)))
+  await withStore(IDENTITY_STORE, "readwrite", (store) => store.delete(agreementKeyId(accountId)))
+  await withStore(IDENTITY_STORE, "readwrite", (store) => store.delete(kemSeedId(accountId)))
+  await withStore(IDENTITY_STORE, "readwrite", (store) => store.delete(deviceIdId(accountId)))
+  await withStore(IDENTITY_STORE, "readwrite", (store) => store.delete(plaintextKeyId(accountId)))
+  await withStore(SENDER_CHAIN_STORE, "readwrite", (store) => store.delete(accountId))
+  await withStore(PLAINTEXT_STORE, "readwrite", (store) => store.delete(plaintextRange(accountId)))
+}
+
+// Panic wipe: every account's keys at once. Tabs only hold the database open per request, so this rarely waits
+export function deleteKeyDatabase(): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(DB_NAME)
+    request.onsuccess = () => resolve()
+    request.onerror = () => reject(request.error)
+    request.onblocked = () => console.warn("[v0] Key database deletion is waiting for another tab")
+  })
+}
+
+export async function loadSigningKeyPair(accountId: string): Promise<CryptoKeyPair | null> {
+  return loadIdentityKeyPair(signingKeyId(accountId))
+}
+
+export async function saveSigningKeyPair(accountId: string, keyPair: CryptoKeyPair): Promise<void> {
+  await saveIdentityKeyPair(signingKeyId(accountId), keyPair)
+}
+
+export async function loadAgreementKeyPair(accountId: string): Promise<CryptoKeyPair | null> {
+  return loadIdentityKeyPair(agreementKeyId(accountId))
+}
+
+export async function saveAgreementKeyPair(accountId: string, keyPair: CryptoKeyPair): Promise<void> {
+  await saveIdentityKeyPair(agreementKeyId(accountId), keyPair)
+}
+
+export async function loadKemSeed(accountId: string): Promise<Uint8Array | null> {
+  const stored = await withStore<Uint8Array | undefined>(IDENTITY_STORE, "readonly", (store) =>
+    store.get(kemSeedId(accountId)),
+  )
+  return stored || null
+}
+
+export async function saveKemSeed(accountId: string, seed: Uint8Array): Promise<void> {
+  await withStore(IDENTITY_STORE, "readwrite", (store) => store.put(seed, kemSeedId(accountId)))
+}
+
+export async function loadDeviceId(accountId: string): Promise<string | null> {
+  const stored = await withStore<string | undefined>(IDENTITY_STORE, "readonly", (store) =>
+    store.get(deviceIdId(accountId)),
+  )
+  return stored || null
+}
+
+export async function saveDeviceId(accountId: string, deviceId: string): Promise<void> {
+  await withStore(IDENTITY_STORE, "readwrite", (store) => store.put(deviceId, deviceIdId(accountId)))
+}
+
+export async function loadSyncKey(group: string): Promise<CryptoKey | null> {
+  const stored = await withStore<CryptoKey | undefined>(IDENTITY_STORE, "readonly", (store) =>
+    store.get(syncKeyId(group)),
+  )
+  return stored || null
+}
+
+export async function saveSyncKey(group: string, key: CryptoKey): Promise<void> {
+  await withStore(IDENTITY_STORE, "readwrite", (store) => store.put(key, syncKeyId(group)))
+}
+
+export async function loadSenderChains<T>(accountId: string): Promise<Record<string, T>> {
+  const stored = await withStore<Record<string, T> | undefined>(SENDER_CHAIN_STORE, "readonly", (store) =>
+    store.get(accountId),
+  )
+  return stored || {}
+}
+
+// Overwrites the whole map so ratcheted-past chain keys are gone from disk too
+export async function saveSenderChains<T>(accountId: string, chains: Record<string, T>): Promise<void> {
+  await withStore(SENDER_CHAIN_STORE, "readwrite", (store) => store.put(chains, accountId))
+}
+
+export async function loadPlaintextKey(accountId: string): Promise<CryptoKey | null> {
+  const stored = await withStore<CryptoKey | undefined>(IDENTITY_STORE, "readonly", (store) =>
+    store.get(plaintextKeyId(accountId)),
+  )
+  return stored || null
+}
+
+export async function savePlaintextKey(accountId: string, key: CryptoKey): Promise<void> {
+  await withStore(IDENTITY_STORE, "readwrite", (store) => store.put(key, plaintextKeyId(accountId)))
+}
+
+export async function loadSealedPlaintexts(accountId: string): Promise<SealedPlaintext[]> {
+  return withStore<SealedPlaintext[]>(PLAINTEXT_STORE, "readonly", (store) => store.getAll(plaintextRange(accountId)))
+}
+
+export async function saveSealedPlaintext(accountId: string, sealed: SealedPlaintext): Promise<void> {
+  await withStore(PLAINTEXT_STORE, "readwrite", (store) => store.put(sealed, `${accountId}|${sealed.messageId}`))
+}
+
+// By message id for every account on this device, so expired messages go even while nobody is signed in
+export async function deleteSealedPlaintexts(messageIds: string[]): Promise<void> {
+  const ids = new Set(messageIds)
+  const db = await openKeyDatabase()
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const request = db.transaction(PLAINTEXT_STORE, "readwrite").objectStore(PLAINTEXT_STORE).openCursor()
+      request.onsuccess = () => {
+        const cursor = request.result
+        if (!cursor) return resolve()
+        if (ids.has((cursor.value as SealedPlaintext).messageId)) cursor.delete()
+        cursor.continue()
+      }
+      request.onerror = () => reject(request.error)
+    })
+  } finally {
+    db.close()
+  }
+}
+
+export async function loadTrustLedger<T>(accountId: string): Promise<Record<string, T>> {
+  const stored = await withStore<Record<string, T> | undefined>(TRUST_LEDGER_STORE, "readonly", (store) =>
+    store.get(accountId),
+  )
+  return stored || {}
+}
+
+export async function saveTrustLedger<T>(accountId: string, ledger: Record<string, T>): Promise<void> {
+  await withStore(TRUST_LEDGER_STORE, "readwrite", (store) => store.put(ledger, accountId))
+}
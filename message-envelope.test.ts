@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest"
+import { EnvelopeAlgorithm, isEnvelope, openEnvelope, sealEnvelope, type EnvelopeContext } from "@/lib/message-envelope"
+import { PADDING_BUCKETS } from "@/lib/message-padding"
+
+const header = { algorithm: EnvelopeAlgorithm.RoomKey, keyEpoch: 0 }
+const context: EnvelopeContext = { roomId: "room-1", messageId: "message-1" }
+
+const createKey = () => crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, ["encrypt", "decrypt"])
+const sealedLength = (envelope: string) => atob(envelope).length
+
+// Version 1 as older clients wrote it: the sender in the header and no subject in the additional data
+async function sealVersion1(key: CryptoKey, plaintext: string, senderId: string) {
+  const sender = new TextEncoder().encode(senderId)
+  const headerBytes = Uint8Array.of(0x4e, 0x46, 1, header.algorithm, 0, 0, 0, header.keyEpoch, sender.length, ...sender)
+  const bound = ["nofeds-message", context.roomId, context.messageId, senderId, null, null]
+  const additionalData = Uint8Array.of(...headerBytes, ...new TextEncoder().encode(JSON.stringify(bound)))
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const encrypted = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv, additionalData },
+    key,
+    new TextEncoder().encode(plaintext),
+  )
+  return Buffer.from(Uint8Array.of(...headerBytes, ...iv, ...new Uint8Array(encrypted))).toString("base64")
+}
+
+describe("sealEnvelope padding", async () => {
+  const key = await createKey()
+
+  it("gives messages in the same bucket ciphertexts of equal length", async () => {
+    const envelopes = await Promise.all(
+      ["yes", "no", "", "a somewhat longer reply that still fits in the smallest bucket"].map((text) =>
+        sealEnvelope(key, text, header, context, "bucket"),
+      ),
+    )
+    expect(new Set(envelopes.map(sealedLength)).size).toBe(1)
+  })
+
+  it("gives messages in different buckets different lengths", async () => {
+    const short = await sealEnvelope(key, "yes", header, context, "bucket")
+    const long = await sealEnvelope(key, "x".repeat(PADDING_BUCKETS[0]), header, context, "bucket")
+    expect(sealedLength(long)).toBeGreaterThan(sealedLength(short))
+  })
+
+  it("leaks the length without padding", async () => {
+    const yes = await sealEnvelope(key, "yes", header, context, "none")
+    const no = await sealEnvelope(key, "no", header, context, "none")
+    expect(sealedLength(yes)).toBe(sealedLength(no) + 1)
+  })
+
+  it.each(["none", "bucket", "padme"] as const)("opens what it sealed with %s padding", async (padding) => {
+    const envelope = await sealEnvelope(key, "hello 👋", header, context, padding)
+    expect(isEnvelope(envelope)).toBe(true)
+    expect(await openEnvelope(key, envelope, header, context)).toBe("hello 👋")
+  })
+})
+
+describe("openEnvelope", async () => {
+  const key = await createKey()
+  const envelope = await sealEnvelope(key, "hello", header, context, "bucket")
+
+  it("refuses another room, message or subject", async () => {
+    await expect(openEnvelope(key, envelope, header, { ...context, roomId: "room-2" })).rejects.toThrow()
+    await expect(openEnvelope(key, envelope, header, { ...context, messageId: "message-2" })).rejects.toThrow()
+    await expect(openEnvelope(key, envelope, header, { ...context, subject: "room-metadata" })).rejects.toThrow()
+  })
+
+  it("refuses another key epoch or algorithm", async () => {
+    await expect(openEnvelope(key, envelope, { ...header, keyEpoch: 1 }, context)).rejects.toThrow("epoch")
+    await expect(
+      openEnvelope(key, envelope, { ...header, algorithm: EnvelopeAlgorithm.SenderKey }, context),
+    ).rejects.toThrow("algorithm")
+  })
+})
+
+describe("version 1 envelopes", async () => {
+  const key = await createKey()
+  const envelope = await sealVersion1(key, "hello", "alice")
+
+  it("still open as messages from the sender in the header", async () => {
+    expect(await openEnvelope(key, envelope, header, { ...context, senderId: "alice" })).toBe("hello")
+    await expect(openEnvelope(key, envelope, header, { ...context, senderId: "mallory" })).rejects.toThrow("sender")
+  })
+
+  it("refuse to stand in for sealed senders, metadata or membership proofs", async () => {
+    await expect(openEnvelope(key, envelope, header, context)).rejects.toThrow("sender")
+    for (const subject of ["room-metadata", "room-membership"] as const) {
+      await expect(openEnvelope(key, envelope, header, { ...context, senderId: "alice", subject })).rejects.toThrow(
+        "only carries messages",
+      )
+    }
+  })
+})
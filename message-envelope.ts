@@ -0,0 +1,197 @@
+// Ciphertext envelope for chat messages. The header says how a message was
+// encrypted so the algorithm can change later without breaking old history,
+// and the header plus the room and message ids are bound as AES-GCM
+// additional data: a ciphertext copied into another room or message fails to
+// decrypt instead of showing up there.
+//
+// Layout (base64 of):
+//   version 3: "NF" | version (1 byte) | algorithm (1) | key epoch (uint32 BE) |
+//              IV (12) | AES-GCM ciphertext of the padded plaintext
+//   version 2: as version 3, but the plaintext is not padded
+//   version 1: "NF" | version (1 byte) | algorithm (1) | key epoch (uint32 BE) |
+//              sender id length (1) | sender id (UTF-8) | IV (12) | AES-GCM ciphertext
+//
+// Version 1 named the sender in the clear. Version 2 leaves it out; the app
+// puts the sender inside the plaintext instead, so the log only shows who
+// wrote a message to those who can decrypt it. Version 3 pads the plaintext
+// (see lib/message-padding) so the ciphertext doesn't give away its length.
+// Older versions are still opened for old history but never written. Version 1
+// binds no subject, so it only opens as a message: metadata and membership
+// proofs came later.
+
+import { type PaddingScheme, padPlaintext, unpadPlaintext } from "@/lib/message-padding"
+
+export const ENVELOPE_VERSION = 3
+const UNPADDED_VERSION = 2
+const SENDER_IN_HEADER_VERSION = 1
+
+export const EnvelopeAlgorithm = {
+  // AES-256-GCM under the room key for the given epoch
+  RoomKey: 1,
+  // AES-256-GCM under a message key from the sender's ratchet, see lib/sender-keys
+  SenderKey: 2,
+} as const
+
+export type EnvelopeAlgorithmId = (typeof EnvelopeAlgorithm)[keyof typeof EnvelopeAlgorithm]
+
+export interface EnvelopeHeader {
+  version: number
+  algorithm: EnvelopeAlgorithmId
+  keyEpoch: number
+  senderId?: string // Version 1 only
+}
+
+// Where the message claims to belong; all of it must match for the envelope to open
+export interface EnvelopeContext {
+  roomId: string
+  messageId: string
+  // Only checked for version 1 envelopes, which carry it in the header
+  senderId?: string
+  senderKey?: { distributionId: string; iteration: number }
+  // Keeps sealed room metadata, membership proofs and messages from being swapped for one another
+  subject?: "message" | "room-metadata" | "room-membership"
+}
+
+const MAGIC = [0x4e, 0x46] // "NF"
+const IV_LENGTH = 12
+
+// Built in chunks so long messages don't overflow the argument list of fromCharCode
+function toBase64(bytes: Uint8Array): string {
+  let binary = ""
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+function fromBase64(value: string) {
+  const binary = atob(value)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+function encodeHeader(header: Omit<EnvelopeHeader, "senderId">) {
+  const bytes = new Uint8Array(MAGIC.length + 6)
+  bytes.set(MAGIC)
+  const view = new DataView(bytes.buffer)
+  view.setUint8(2, header.version)
+  view.setUint8(3, header.algorithm)
+  view.setUint32(4, header.keyEpoch)
+  return bytes
+}
+
+function decodeHeader(bytes: Uint8Array): { header: EnvelopeHeader; length: number } | null {
+  if (bytes.length < 8 || bytes[0] !== MAGIC[0] || bytes[1] !== MAGIC[1]) return null
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const header: EnvelopeHeader = {
+    version: view.getUint8(2),
+    algorithm: view.getUint8(3) as EnvelopeAlgorithmId,
+    keyEpoch: view.getUint32(4),
+  }
+  if (header.version !== SENDER_IN_HEADER_VERSION) {
+    return bytes.length < 8 + IV_LENGTH ? null : { header, length: 8 }
+  }
+
+  if (bytes.length < 9) return null
+  const senderLength = view.getUint8(8)
+  if (bytes.length < 9 + senderLength + IV_LENGTH) return null
+  header.senderId = new TextDecoder().decode(bytes.slice(9, 9 + senderLength))
+  return { header, length: 9 + senderLength }
+}
+
+function additionalData(headerBytes: Uint8Array, version: number, context: EnvelopeContext) {
+  const routing = [context.senderKey?.distributionId ?? null, context.senderKey?.iteration ?? null]
+  const bound = new TextEncoder().encode(
+    JSON.stringify(
+      version === SENDER_IN_HEADER_VERSION
+        ? ["nofeds-message", context.roomId, context.messageId, context.senderId, ...routing]
+        : [`nofeds-${context.subject ?? "message"}`, context.roomId, context.messageId, ...routing],
+    ),
+  )
+  const data = new Uint8Array(headerBytes.length + bound.length)
+  data.set(headerBytes)
+  data.set(bound, headerBytes.length)
+  return data
+}
+
+// Messages from before the envelope are a bare base64 IV || ciphertext
+export function isEnvelope(content: string): boolean {
+  try {
+    return decodeHeader(fromBase64(content)) !== null
+  } catch {
+    return false
+  }
+}
+
+export async function sealEnvelope(
+  key: CryptoKey,
+  plaintext: string,
+  header: Omit<EnvelopeHeader, "version" | "senderId">,
+  context: EnvelopeContext,
+  padding: PaddingScheme = "none",
+): Promise<string> {
+  const headerBytes = encodeHeader({ ...header, version: ENVELOPE_VERSION })
+  const iv = window.crypto.getRandomValues(new Uint8Array(IV_LENGTH))
+  const encrypted = await window.crypto.subtle.encrypt(
+    { name: "AES-GCM", iv, additionalData: additionalData(headerBytes, ENVELOPE_VERSION, context) },
+    key,
+    padPlaintext(new TextEncoder().encode(plaintext), padding),
+  )
+
+  const combined = new Uint8Array(headerBytes.length + iv.length + encrypted.byteLength)
+  combined.set(headerBytes)
+  combined.set(iv, headerBytes.length)
+  combined.set(new Uint8Array(encrypted), headerBytes.length + iv.length)
+  return toBase64(combined)
+}
+
+// Throws unless the envelope is one we understand, was made for this context and authenticates
+export async function openEnvelope(
+  key: CryptoKey,
+  envelope: string,
+  expected: { algorithm: EnvelopeAlgorithmId; keyEpoch: number },
+  context: EnvelopeContext,
+): Promise<string> {
+  const bytes = fromBase64(envelope)
+  const decoded = decodeHeader(bytes)
+  if (!decoded) throw new Error("Not a message envelope")
+
+  const { header, length } = decoded
+  if (![ENVELOPE_VERSION, UNPADDED_VERSION, SENDER_IN_HEADER_VERSION].includes(header.version)) {
+    throw new Error(`Unsupported envelope version ${header.version}`)
+  }
+  if (header.algorithm !== expected.algorithm) throw new Error("Envelope algorithm mismatch")
+  if (header.keyEpoch !== expected.keyEpoch) throw new Error("Envelope key epoch mismatch")
+  if (header.version === SENDER_IN_HEADER_VERSION) {
+    if ((context.subject ?? "message") !== "message") throw new Error("Envelope version 1 only carries messages")
+    if (header.senderId !== context.senderId) throw new Error("Envelope sender mismatch")
+  }
+
+  const decrypted = await window.crypto.subtle.decrypt(
+    {
+      name: "AES-GCM",
+      iv: bytes.slice(length, length + IV_LENGTH),
+      additionalData: additionalData(bytes.slice(0, length), header.version, context),
+    },
+    key,
+    bytes.slice(length + IV_LENGTH),
+  )
+  const plaintext = new Uint8Array(decrypted)
+  return new TextDecoder().decode(header.version === ENVELOPE_VERSION ? unpadPlaintext(plaintext) : plaintext)
+}
+
+// Pre-envelope history. Nothing is bound to it, so new messages are never written this way and callers only open
+// it for messages old enough to have been written before envelopes
+export async function openLegacyCiphertext(key: CryptoKey, ciphertext: string): Promise<string> {
+  const combined = fromBase64(ciphertext)
+  const decrypted = await window.crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: combined.slice(0, IV_LENGTH) },
+    key,
+    combined.slice(IV_LENGTH),
+  )
+  return new TextDecoder().decode(decrypted)
+}
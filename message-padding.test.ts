@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest"
+import { PADDING_BUCKETS, paddedLength, padPlaintext, unpadPlaintext, type PaddingScheme } from "@/lib/message-padding"
+
+const SCHEMES: PaddingScheme[] = ["none", "bucket", "padme"]
+
+describe("paddedLength", () => {
+  it("rounds up to the next bucket, then to multiples of the largest", () => {
+    expect(paddedLength(0, "bucket")).toBe(256)
+    expect(paddedLength(255, "bucket")).toBe(256)
+    expect(paddedLength(256, "bucket")).toBe(512)
+    expect(paddedLength(5000, "bucket")).toBe(8192)
+    const largest = PADDING_BUCKETS[PADDING_BUCKETS.length - 1]
+    expect(paddedLength(largest, "bucket")).toBe(2 * largest)
+    expect(paddedLength(5 * largest, "bucket")).toBe(6 * largest)
+  })
+
+  it("keeps only the top bits of the length with Padmé", () => {
+    // 101 bytes with the marker: exponent 6, so the low 3 bits are cleared
+    expect(paddedLength(100, "padme")).toBe(104)
+    // 1001 bytes: exponent 9, so the low 5 bits are cleared
+    expect(paddedLength(1000, "padme")).toBe(1024)
+    expect(paddedLength(0, "padme")).toBe(1)
+  })
+
+  it("never shrinks, and Padmé stays within 12% overhead", () => {
+    for (let length = 0; length < 20000; length += 7) {
+      for (const scheme of SCHEMES) expect(paddedLength(length, scheme)).toBeGreaterThan(length)
+      expect(paddedLength(length, "padme")).toBeLessThanOrEqual(Math.ceil((length + 1) * 1.12))
+    }
+  })
+
+  it("only adds the marker without padding", () => {
+    expect(paddedLength(10, "none")).toBe(11)
+  })
+})
+
+describe("padPlaintext and unpadPlaintext", () => {
+  const samples = [
+    new Uint8Array(),
+    new TextEncoder().encode("yes"),
+    // Trailing zeros and marker bytes must survive
+    Uint8Array.of(1, 2, 0, 0),
+    Uint8Array.of(0x80, 0x80, 0),
+    crypto.getRandomValues(new Uint8Array(3000)),
+  ]
+
+  it.each(SCHEMES)("round-trips with %s", (scheme) => {
+    for (const data of samples) {
+      const padded = padPlaintext(data, scheme)
+      expect(padded.length).toBe(paddedLength(data.length, scheme))
+      expect(unpadPlaintext(padded)).toEqual(data)
+    }
+  })
+
+  it("pads messages in the same bucket to the same length", () => {
+    const lengths = ["yes", "no", "see you tomorrow at the station"].map(
+      (text) => padPlaintext(new TextEncoder().encode(text), "bucket").length,
+    )
+    expect(new Set(lengths).size).toBe(1)
+  })
+
+  it("rejects malformed padding", () => {
+    expect(() => unpadPlaintext(new Uint8Array())).toThrow("Invalid message padding")
+    expect(() => unpadPlaintext(new Uint8Array(16))).toThrow("Invalid message padding")
+    // Last non-zero byte is not the marker
+    expect(() => unpadPlaintext(Uint8Array.of(0x61, 0x62, 0, 0))).toThrow("Invalid message padding")
+    expect(() => unpadPlaintext(Uint8Array.of(0x80, 0x01))).toThrow("Invalid message padding")
+  })
+})
@@ -0,0 +1,65 @@
+// Length hiding for encrypted messages. AES-GCM ciphertext is exactly as long
+// as its plaintext, so a bare "yes" looks different from a bare "no" on the
+// wire. Plaintext is padded before encryption to a length that depends only on
+// which size class it falls in:
+//
+//   "bucket"  next size in PADDING_BUCKETS, then multiples of the largest. Hides
+//             the most, at up to 2x overhead
+//   "padme"   Padmé (Nikitin et al., PETS 2019): keeps the top bits of the
+//             length and zeroes the rest, at most ~12% overhead but short
+//             messages stay close to their real size
+//   "none"    no padding beyond the end marker
+//
+// Padding is ISO/IEC 7816-4 style, a 0x80 byte then zeros, so it strips without
+// knowing which scheme was used.
+
+export type PaddingScheme = "none" | "bucket" | "padme"
+
+export const DEFAULT_PADDING: PaddingScheme = "bucket"
+
+// Sealed message bodies carry the sender and a signature, so even "ok" is a couple of hundred bytes
+export const PADDING_BUCKETS = [256, 512, 1024, 2048, 4096, 8192, 16384]
+
+const PADDING_MARKER = 0x80
+
+function padme(length: number): number {
+  if (length < 2) return length
+  const exponent = Math.floor(Math.log2(length))
+  const lastBits = exponent - (Math.floor(Math.log2(exponent)) + 1)
+  const step = 2 ** lastBits
+  return Math.ceil(length / step) * step
+}
+
+function bucket(length: number): number {
+  const fit = PADDING_BUCKETS.find((size) => size >= length)
+  if (fit) return fit
+  const largest = PADDING_BUCKETS[PADDING_BUCKETS.length - 1]
+  return Math.ceil(length / largest) * largest
+}
+
+// Total padded size for `length` bytes of plaintext, including the end marker
+export function paddedLength(length: number, scheme: PaddingScheme): number {
+  const marked = length + 1
+  switch (scheme) {
+    case "bucket":
+      return bucket(marked)
+    case "padme":
+      return padme(marked)
+    default:
+      return marked
+  }
+}
+
+export function padPlaintext(data: Uint8Array, scheme: PaddingScheme) {
+  const padded = new Uint8Array(paddedLength(data.length, scheme))
+  padded.set(data)
+  padded[data.length] = PADDING_MARKER
+  return padded
+}
+
+export function unpadPlaintext(padded: Uint8Array) {
+  let end = padded.length - 1
+  while (end >= 0 && padded[end] === 0) end--
+  if (end < 0 || padded[end] !== PADDING_MARKER) throw new Error("Invalid message padding")
+  return padded.slice(0, end)
+}
@@ -0,0 +1,178 @@
+import { createHash } from "node:crypto"
+import { describe, expect, it } from "vitest"
+import {
+  ML_KEM_1024,
+  ML_KEM_512,
+  ML_KEM_768,
+  mlKemCiphertextLength,
+  mlKemDecapsulate,
+  mlKemEncapsulate,
+  mlKemKeygen,
+  mlKemPublicKeyLength,
+  mlKemSecretKeyLength,
+  sha3_256,
+  sha3_512,
+  shake128,
+  shake256,
+  type MlKemParams,
+} from "@/lib/ml-kem"
+
+const hex = (bytes: Uint8Array) => Buffer.from(bytes).toString("hex")
+const sha3 = (bytes: Uint8Array) => createHash("sha3-256").update(bytes).digest("hex")
+const bytesFrom = (start: number, length: number) => Uint8Array.from({ length }, (_, i) => start + i)
+
+describe("Keccak", () => {
+  it("matches the FIPS 202 examples", () => {
+    const abc = new TextEncoder().encode("abc")
+    expect(hex(sha3_256(abc))).toBe("3a985da74fe225b2045c172d6bd390bd855f086e3e9d525b46bfe24511431532")
+    expect(hex(sha3_512(abc))).toBe(
+      "b751850b1a57168a5693cd924b6b096e08f621827444f70d884f5d0240d2712e10e116e9192af3c91a7ec57647e3934057340b4cf408d5a56592f8274eec53f0",
+    )
+    expect(hex(shake128(new Uint8Array(), 32))).toBe("7f9c2ba4e88f827d616045507605853ed73b8093f6efbc88eb1a6eacfa66ef26")
+    expect(hex(shake256(new Uint8Array(), 32))).toBe("46b9dd2b0ba88d13233b3feb743eeb243fcd52ea62b81b82b50c27646ed5762f")
+  })
+
+  it("agrees with node:crypto across block boundaries", () => {
+    for (const length of [0, 1, 71, 72, 135, 136, 137, 167, 168, 169, 500]) {
+      const input = bytesFrom(length, length)
+      expect(hex(sha3_256(input))).toBe(createHash("sha3-256").update(input).digest("hex"))
+      expect(hex(sha3_512(input))).toBe(createHash("sha3-512").update(input).digest("hex"))
+      expect(hex(shake128(input, 400))).toBe(createHash("shake128", { outputLength: 400 }).update(input).digest("hex"))
+      expect(hex(shake256(input, 300))).toBe(createHash("shake256", { outputLength: 300 }).update(input).digest("hex"))
+    }
+  })
+})
+
+// C2SP/CCTV accumulated vectors (also run by Go's and BoringSSL's ML-KEM tests): seeds, messages and random
+// ciphertexts are read in turn from SHAKE128(""), every key, ciphertext and shared secret is absorbed into a
+// second SHAKE128, and only its 32-byte digest is published. Covers keygen, encapsulation, decapsulation and
+// implicit rejection of the random ciphertexts
+describe("ML-KEM-768 accumulated vectors", () => {
+  it("reproduces the published digest for 100 iterations", () => {
+    const iterations = 100
+    const ciphertextLength = mlKemCiphertextLength(ML_KEM_768)
+    const source = new Uint8Array(
+      createHash("shake128", { outputLength: iterations * (64 + 32 + ciphertextLength) }).digest(),
+    )
+    let position = 0
+    const read = (length: number) => source.subarray(position, (position += length))
+    const accumulator = createHash("shake128", { outputLength: 32 })
+
+    for (let i = 0; i < iterations; i++) {
+      const { publicKey, secretKey } = mlKemKeygen(read(64))
+      accumulator.update(publicKey)
+      const { ciphertext, sharedSecret } = mlKemEncapsulate(publicKey, read(32))
+      accumulator.update(ciphertext)
+      accumulator.update(sharedSecret)
+      expect(hex(mlKemDecapsulate(ciphertext, secretKey))).toBe(hex(sharedSecret))
+      accumulator.update(mlKemDecapsulate(read(ciphertextLength), secretKey))
+    }
+
+    expect(accumulator.digest("hex")).toBe("1114b1b6699ed191734fa339376afa7e285c9e6acf6ff0177d346696ce564415")
+  })
+})
+
+// Fixed inputs d || z = 00..3f and m = 40..5f. Keys and ciphertexts are given as SHA3-256 digests; the values
+// agree with @noble/post-quantum, an independent implementation
+const KNOWN_ANSWERS: { name: string; params: MlKemParams; expected: Record<string, string> }[] = [
+  {
+    name: "ML-KEM-512",
+    params: ML_KEM_512,
+    expected: {
+      publicKey: "82f101ff648063b376e2bb6c5b7455f655a50c2feadade150efa0e0e6f365aea",
+      secretKey: "0bd3f5df01098ac9c29d687c7f1bd0588a5573feeef8f1e3b4573fa7f6ab57c8",
+      ciphertext: "e3fdddb90255869185c07cdf1c1880b2efe08b6f04da4997b693c0dea61503bd",
+      sharedSecret: "14cace3e48771b316676afad2cfcfe8488daaa4fad954e57236caa3f24a42cf7",
+      rejected: "eed71bd178318ef2846b91a3fee1248840bd46f26a90ae1d82b919a6472443c9",
+    },
+  },
+  {
+    name: "ML-KEM-768",
+    params: ML_KEM_768,
+    expected: {
+      publicKey: "a24e16d8f8f9383a95b77050f4d9fd2f5733eec1d63ef3c23ebf9918173669a7",
+      secretKey: "1149f17c3c4ac6ab1e3e2d9d8bd0171355ac0fa31bb8855c48ceade874c0864b",
+      ciphertext: "b4cfbd24cef67afd3764276c6980e0f88f8e9ca57f59b7f12fe1a9c1e72f4710",
+      sharedSecret: "9cddd089ffe70e3996e76f7c8d06746df34d07e8657bc0fcf2bb0e1c3084aea1",
+      rejected: "1f39ae51991196b33dbc7c6031f9f35fd3347d577ebb4dea93028bcd9ab5dabe",
+    },
+  },
+  {
+    name: "ML-KEM-1024",
+    params: ML_KEM_1024,
+    expected: {
+      publicKey: "61349e5c131a7e116a0463861d7d18663c5627c38c7147ddaadfd48acd7a4535",
+      secretKey: "f0db5d938027fcd9bad87847d52c14cf0c4abcf0703b749793f212111ffb303b",
+      ciphertext: "c1579fa02c614f3762b2a799b51e41cebb8f820f34fa736af02c56de2460ce3c",
+      sharedSecret: "0ad8d1ea1b8dd788979b4379581218df9321bdce5567eca42ae6be7d395f1a54",
+      rejected: "9d20ec8bd82507657af2e7573571c146ea7c0c9281182f016c4774944172285a",
+    },
+  },
+]
+
+describe.each(KNOWN_ANSWERS)("$name", ({ params, expected }) => {
+  const seed = bytesFrom(0, 64)
+  const message = bytesFrom(64, 32)
+
+  it("generates the known key pair", () => {
+    const { publicKey, secretKey } = mlKemKeygen(seed, params)
+    expect(publicKey.length).toBe(mlKemPublicKeyLength(params))
+    expect(secretKey.length).toBe(mlKemSecretKeyLength(params))
+    expect(sha3(publicKey)).toBe(expected.publicKey)
+    expect(sha3(secretKey)).toBe(expected.secretKey)
+  })
+
+  it("encapsulates and decapsulates to the known secret", () => {
+    const { publicKey, secretKey } = mlKemKeygen(seed, params)
+    const { ciphertext, sharedSecret } = mlKemEncapsulate(publicKey, message, params)
+    expect(ciphertext.length).toBe(mlKemCiphertextLength(params))
+    expect(sha3(ciphertext)).toBe(expected.ciphertext)
+    expect(hex(sharedSecret)).toBe(expected.sharedSecret)
+    expect(hex(mlKemDecapsulate(ciphertext, secretKey, params))).toBe(expected.sharedSecret)
+  })
+
+  it("implicitly rejects a modified ciphertext with J(z || c)", () => {
+    const { publicKey, secretKey } = mlKemKeygen(seed, params)
+    const ciphertext = Uint8Array.from(mlKemEncapsulate(publicKey, message, params).ciphertext)
+    ciphertext[ciphertext.length - 1] ^= 1
+
+    const rejected = mlKemDecapsulate(ciphertext, secretKey, params)
+    expect(hex(rejected)).toBe(expected.rejected)
+    const z = seed.subarray(32)
+    expect(hex(rejected)).toBe(hex(shake256(Uint8Array.from([...z, ...ciphertext]), 32)))
+  })
+
+  it("round-trips random keys", () => {
+    const { publicKey, secretKey } = mlKemKeygen(undefined, params)
+    const { ciphertext, sharedSecret } = mlKemEncapsulate(publicKey, undefined, params)
+    expect(hex(mlKemDecapsulate(ciphertext, secretKey, params))).toBe(hex(sharedSecret))
+  })
+})
+
+describe("ML-KEM input checks", () => {
+  const { publicKey, secretKey } = mlKemKeygen(bytesFrom(0, 64))
+
+  it("rejects a public key with an unreduced coefficient", () => {
+    const tampered = Uint8Array.from(publicKey)
+    // The first 12-bit coefficient becomes 0xfff, above q
+    tampered[0] = 0xff
+    tampered[1] |= 0x0f
+    expect(() => mlKemEncapsulate(tampered)).toThrow("Invalid ML-KEM public key")
+  })
+
+  it("rejects wrong lengths", () => {
+    expect(() => mlKemKeygen(new Uint8Array(32))).toThrow()
+    expect(() => mlKemEncapsulate(publicKey.subarray(1))).toThrow()
+    expect(() => mlKemEncapsulate(publicKey, new Uint8Array(31))).toThrow()
+    const { ciphertext } = mlKemEncapsulate(publicKey)
+    expect(() => mlKemDecapsulate(ciphertext.subarray(1), secretKey)).toThrow()
+    expect(() => mlKemDecapsulate(ciphertext, secretKey.subarray(1))).toThrow()
+  })
+
+  it("rejects a secret key whose embedded hash doesn't match", () => {
+    const tampered = Uint8Array.from(secretKey)
+    tampered[768 * 3 + 32] ^= 1
+    const { ciphertext } = mlKemEncapsulate(publicKey)
+    expect(() => mlKemDecapsulate(ciphertext, tampered)).toThrow("Invalid ML-KEM secret key")
+  })
+})
@@ -0,0 +1,441 @@
+// ML-KEM (FIPS 203, the standardised CRYSTALS-Kyber) key encapsulation, in
+// plain TypeScript because WebCrypto has neither ML-KEM nor the SHA-3 family it
+// is built on. Follows the algorithm numbering of the standard:
+//
+//   mlKemKeygen      ML-KEM.KeyGen_internal (Algorithm 16), from a 64-byte seed d || z
+//   mlKemEncapsulate ML-KEM.Encaps_internal (Algorithm 17) plus the input check of 7.2
+//   mlKemDecapsulate ML-KEM.Decaps_internal (Algorithm 18) plus the input check of 7.3
+//
+// Seeds and the encapsulation randomness can be passed in so the known-answer
+// vectors reproduce; leave them out and they come from crypto.getRandomValues.
+// Arithmetic is on plain numbers and is not constant-time, which suits a
+// browser client where the keys never leave the user's own device.
+
+export interface MlKemParams {
+  k: number
+  eta1: number
+  eta2: number
+  du: number
+  dv: number
+}
+
+export const ML_KEM_512: MlKemParams = { k: 2, eta1: 3, eta2: 2, du: 10, dv: 4 }
+export const ML_KEM_768: MlKemParams = { k: 3, eta1: 2, eta2: 2, du: 10, dv: 4 }
+export const ML_KEM_1024: MlKemParams = { k: 4, eta1: 2, eta2: 2, du: 11, dv: 5 }
+
+export const ML_KEM_SEED_LENGTH = 64
+export const ML_KEM_SHARED_SECRET_LENGTH = 32
+
+export const mlKemPublicKeyLength = ({ k }: MlKemParams) => 384 * k + 32
+export const mlKemSecretKeyLength = ({ k }: MlKemParams) => 768 * k + 96
+export const mlKemCiphertextLength = ({ k, du, dv }: MlKemParams) => 32 * (du * k + dv)
+
+export interface MlKemKeyPair {
+  publicKey: Uint8Array // Encapsulation key
+  secretKey: Uint8Array // Decapsulation key
+}
+
+// --- Keccak (FIPS 202) ---
+
+const KECCAK_ROUND_CONSTANTS = [
+  [0x00000001, 0x00000000], [0x00008082, 0x00000000], [0x0000808a, 0x80000000], [0x80008000, 0x80000000],
+  [0x0000808b, 0x00000000], [0x80000001, 0x00000000], [0x80008081, 0x80000000], [0x00008009, 0x80000000],
+  [0x0000008a, 0x00000000], [0x00000088, 0x00000000], [0x80008009, 0x00000000], [0x8000000a, 0x00000000],
+  [0x8000808b, 0x00000000], [0x0000008b, 0x80000000], [0x00008089, 0x80000000], [0x00008003, 0x80000000],
+  [0x00008002, 0x80000000], [0x00000080, 0x80000000], [0x0000800a, 0x00000000], [0x8000000a, 0x80000000],
+  [0x80008081, 0x80000000], [0x00008080, 0x80000000], [0x80000001, 0x00000000], [0x80008008, 0x80000000],
+] // [low, high] 32-bit halves
+
+// Rotation of lane x + 5y
+const KECCAK_ROTATIONS = [0, 1, 62, 28, 27, 36, 44, 6, 55, 20, 3, 10, 43, 25, 39, 41, 45, 15, 21, 8, 18, 2, 61, 56, 14]
+
+// Each 64-bit lane is two 32-bit halves: state[2i] low, state[2i + 1] high
+function keccakF1600(state: Uint32Array) {
+  const c = new Uint32Array(10)
+  const b = new Uint32Array(50)
+  for (let round = 0; round < 24; round++) {
+    // Theta
+    for (let x = 0; x < 5; x++) {
+      for (let half = 0; half < 2; half++) {
+        c[2 * x + half] =
+          state[2 * x + half] ^
+          state[2 * (x + 5) + half] ^
+          state[2 * (x + 10) + half] ^
+          state[2 * (x + 15) + half] ^
+          state[2 * (x + 20) + half]
+      }
+    }
+    for (let x = 0; x < 5; x++) {
+      const prev = (x + 4) % 5
+      const next = (x + 1) % 5
+      const dLow = c[2 * prev] ^ ((c[2 * next] << 1) | (c[2 * next + 1] >>> 31))
+      const dHigh = c[2 * prev + 1] ^ ((c[2 * next + 1] << 1) | (c[2 * next] >>> 31))
+      for (let y = 0; y < 25; y += 5) {
+        state[2 * (x + y)] ^= dLow
+        state[2 * (x + y) + 1] ^= dHigh
+      }
+    }
+    // Rho and pi
+    for (let x = 0; x < 5; x++) {
+      for (let y = 0; y < 5; y++) {
+        const lane = x + 5 * y
+        let low = state[2 * lane]
+        let high = state[2 * lane + 1]
+        let shift = KECCAK_ROTATIONS[lane]
+        if (shift >= 32) {
+          ;[low, high] = [high, low]
+          shift -= 32
+        }
+        const target = y + 5 * ((2 * x + 3 * y) % 5)
+        b[2 * target] = shift ? (low << shift) | (high >>> (32 - shift)) : low
+        b[2 * target + 1] = shift ? (high << shift) | (low >>> (32 - shift)) : high
+      }
+    }
+    // Chi
+    for (let y = 0; y < 25; y += 5) {
+      for (let x = 0; x < 5; x++) {
+        for (let half = 0; half < 2; half++) {
+          state[2 * (x + y) + half] =
+            b[2 * (x + y) + half] ^ (~b[2 * (((x + 1) % 5) + y) + half] & b[2 * (((x + 2) % 5) + y) + half])
+        }
+      }
+    }
+    // Iota
+    state[0] ^= KECCAK_ROUND_CONSTANTS[round][0]
+    state[1] ^= KECCAK_ROUND_CONSTANTS[round][1]
+  }
+}
+
+// Absorbs the whole input up front, then squeezes as much output as asked for
+function keccakSponge(rate: number, suffix: number, input: Uint8Array) {
+  const state = new Uint32Array(50)
+  const bytes = new Uint8Array(state.buffer)
+  // Lanes are little-endian, so on a big-endian machine the byte view would be scrambled
+  if (new Uint8Array(new Uint32Array([1]).buffer)[0] !== 1) throw new Error("Big-endian platforms are not supported")
+
+  let offset = 0
+  for (; offset + rate <= input.length; offset += rate) {
+    for (let i = 0; i < rate; i++) bytes[i] ^= input[offset + i]
+    keccakF1600(state)
+  }
+  for (let i = 0; offset + i < input.length; i++) bytes[i] ^= input[offset + i]
+  bytes[input.length - offset] ^= suffix
+  bytes[rate - 1] ^= 0x80
+  keccakF1600(state)
+
+  let position = 0
+  return (length: number): Uint8Array => {
+    const out = new Uint8Array(length)
+    for (let i = 0; i < length; i++) {
+      if (position === rate) {
+        keccakF1600(state)
+        position = 0
+      }
+      out[i] = bytes[position++]
+    }
+    return out
+  }
+}
+
+export const sha3_256 = (input: Uint8Array) => keccakSponge(136, 0x06, input)(32)
+export const sha3_512 = (input: Uint8Array) => keccakSponge(72, 0x06, input)(64)
+export const shake128 = (input: Uint8Array, length: number) => keccakSponge(168, 0x1f, input)(length)
+export const shake256 = (input: Uint8Array, length: number) => keccakSponge(136, 0x1f, input)(length)
+
+// --- Polynomial arithmetic mod q, section 4.3 ---
+
+const N = 256
+const Q = 3329
+
+const mod = (value: number) => ((value % Q) + Q) % Q
+
+function bitReverse7(value: number) {
+  let reversed = 0
+  for (let i = 0; i < 7; i++) reversed |= ((value >> i) & 1) << (6 - i)
+  return reversed
+}
+
+function powMod(base: number, exponent: number) {
+  let result = 1
+  for (let i = 0; i < exponent; i++) result = (result * base) % Q
+  return result
+}
+
+// 17 is the primitive 256th root of unity mod q
+const ZETAS = Array.from({ length: 128 }, (_, i) => powMod(17, bitReverse7(i)))
+const GAMMAS = Array.from({ length: 128 }, (_, i) => powMod(17, 2 * bitReverse7(i) + 1))
+
+type Poly = Int32Array
+
+// Algorithm 9
+function ntt(input: Poly): Poly {
+  const f = Int32Array.from(input)
+  let i = 1
+  for (let len = 128; len >= 2; len >>= 1) {
+    for (let start = 0; start < N; start += 2 * len) {
+      const zeta = ZETAS[i++]
+      for (let j = start; j < start + len; j++) {
+        const t = (zeta * f[j + len]) % Q
+        f[j + len] = mod(f[j] - t)
+        f[j] = (f[j] + t) % Q
+      }
+    }
+  }
+  return f
+}
+
+// Algorithm 10
+function inverseNtt(input: Poly): Poly {
+  const f = Int32Array.from(input)
+  let i = 127
+  for (let len = 2; len <= 128; len <<= 1) {
+    for (let start = 0; start < N; start += 2 * len) {
+      const zeta = ZETAS[i--]
+      for (let j = start; j < start + len; j++) {
+        const t = f[j]
+        f[j] = (t + f[j + len]) % Q
+        f[j + len] = mod(zeta * (f[j + len] - t))
+      }
+    }
+  }
+  for (let j = 0; j < N; j++) f[j] = (f[j] * 3303) % Q // 3303 = 128^-1 mod q
+  return f
+}
+
+// Algorithms 11 and 12
+function multiplyNtts(f: Poly, g: Poly): Poly {
+  const h = new Int32Array(N)
+  for (let i = 0; i < 128; i++) {
+    const [a0, a1, b0, b1] = [f[2 * i], f[2 * i + 1], g[2 * i], g[2 * i + 1]]
+    h[2 * i] = mod(a0 * b0 + ((a1 * b1) % Q) * GAMMAS[i])
+    h[2 * i + 1] = mod(a0 * b1 + a1 * b0)
+  }
+  return h
+}
+
+const addPolys = (f: Poly, g: Poly): Poly => f.map((value, i) => (value + g[i]) % Q)
+const subtractPolys = (f: Poly, g: Poly): Poly => f.map((value, i) => mod(value - g[i]))
+
+// Sum of a[i] * b[i] in the NTT domain
+function innerProduct(a: Poly[], b: Poly[]): Poly {
+  return a.reduce((sum, poly, i) => addPolys(sum, multiplyNtts(poly, b[i])), new Int32Array(N))
+}
+
+// --- Encoding, section 4.2.1 ---
+
+// Algorithm 5
+function byteEncode(f: Poly, d: number): Uint8Array {
+  const out = new Uint8Array(32 * d)
+  let accumulator = 0
+  let bits = 0
+  let position = 0
+  for (let i = 0; i < N; i++) {
+    accumulator |= f[i] << bits
+    bits += d
+    while (bits >= 8) {
+      out[position++] = accumulator & 0xff
+      accumulator >>>= 8
+      bits -= 8
+    }
+  }
+  return out
+}
+
+// Algorithm 6
+function byteDecode(bytes: Uint8Array, d: number): Poly {
+  const f = new Int32Array(N)
+  const mask = (1 << d) - 1
+  let accumulator = 0
+  let bits = 0
+  let position = 0
+  for (let i = 0; i < N; i++) {
+    while (bits < d) {
+      accumulator |= bytes[position++] << bits
+      bits += 8
+    }
+    f[i] = d === 12 ? (accumulator & mask) % Q : accumulator & mask
+    accumulator >>>= d
+    bits -= d
+  }
+  return f
+}
+
+// round(2^d / q * x) mod 2^d, in integers; q is odd so there are no ties
+const compress = (f: Poly, d: number): Poly => f.map((x) => Math.floor((x * 2 ** (d + 1) + Q) / (2 * Q)) % 2 ** d)
+// round(q / 2^d * y), with ties rounding up as the standard defines round
+const decompress = (f: Poly, d: number): Poly => f.map((y) => Math.floor((2 * Q * y + 2 ** d) / 2 ** (d + 1)))
+
+// --- Sampling, section 4.2.2 ---
+
+// Algorithm 7: rejection-sample a polynomial already in the NTT domain
+function sampleNtt(seed: Uint8Array): Poly {
+  const xof = keccakSponge(168, 0x1f, seed)
+  const a = new Int32Array(N)
+  let j = 0
+  while (j < N) {
+    const [c0, c1, c2] = xof(3)
+    const d1 = c0 + 256 * (c1 & 0x0f)
+    const d2 = (c1 >> 4) + 16 * c2
+    if (d1 < Q) a[j++] = d1
+    if (d2 < Q && j < N) a[j++] = d2
+  }
+  return a
+}
+
+// Algorithm 8
+function samplePolyCbd(bytes: Uint8Array, eta: number): Poly {
+  const bit = (index: number) => (bytes[index >> 3] >> (index & 7)) & 1
+  const f = new Int32Array(N)
+  for (let i = 0; i < N; i++) {
+    let x = 0
+    let y = 0
+    for (let j = 0; j < eta; j++) {
+      x += bit(2 * i * eta + j)
+      y += bit(2 * i * eta + eta + j)
+    }
+    f[i] = mod(x - y)
+  }
+  return f
+}
+
+const concatBytes = (...parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((length, part) => length + part.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    out.set(part, offset)
+    offset += part.length
+  }
+  return out
+}
+
+const prf = (eta: number, seed: Uint8Array, nonce: number) =>
+  shake256(concatBytes(seed, Uint8Array.of(nonce)), 64 * eta)
+
+// Â[i][j] = SampleNTT(ρ || j || i)
+function expandMatrix(rho: Uint8Array, k: number): Poly[][] {
+  return Array.from({ length: k }, (_, i) =>
+    Array.from({ length: k }, (_, j) => sampleNtt(concatBytes(rho, Uint8Array.of(j, i)))),
+  )
+}
+
+// --- K-PKE, section 5 ---
+
+// Algorithm 13
+function pkeKeygen(d: Uint8Array, { k, eta1 }: MlKemParams) {
+  const g = sha3_512(concatBytes(d, Uint8Array.of(k)))
+  const rho = g.slice(0, 32)
+  const sigma = g.slice(32)
+  const a = expandMatrix(rho, k)
+
+  let nonce = 0
+  const s = Array.from({ length: k }, () => ntt(samplePolyCbd(prf(eta1, sigma, nonce++), eta1)))
+  const e = Array.from({ length: k }, () => ntt(samplePolyCbd(prf(eta1, sigma, nonce++), eta1)))
+  const t = a.map((row, i) => addPolys(innerProduct(row, s), e[i]))
+
+  return {
+    encryptionKey: concatBytes(...t.map((poly) => byteEncode(poly, 12)), rho),
+    decryptionKey: concatBytes(...s.map((poly) => byteEncode(poly, 12))),
+  }
+}
+
+// Algorithm 14
+function pkeEncrypt(encryptionKey: Uint8Array, message: Uint8Array, randomness: Uint8Array, params: MlKemParams) {
+  const { k, eta1, eta2, du, dv } = params
+  const t = Array.from({ length: k }, (_, i) => byteDecode(encryptionKey.subarray(384 * i, 384 * (i + 1)), 12))
+  const a = expandMatrix(encryptionKey.subarray(384 * k), k)
+
+  let nonce = 0
+  const y = Array.from({ length: k }, () => ntt(samplePolyCbd(prf(eta1, randomness, nonce++), eta1)))
+  const e1 = Array.from({ length: k }, () => samplePolyCbd(prf(eta2, randomness, nonce++), eta2))
+  const e2 = samplePolyCbd(prf(eta2, randomness, nonce), eta2)
+
+  // Âᵀ ∘ ŷ: column i of Â against y
+  const u = Array.from({ length: k }, (_, i) =>
+    addPolys(inverseNtt(innerProduct(a.map((row) => row[i]), y)), e1[i]),
+  )
+  const mu = decompress(byteDecode(message, 1), 1)
+  const v = addPolys(addPolys(inverseNtt(innerProduct(t, y)), e2), mu)
+
+  return concatBytes(...u.map((poly) => byteEncode(compress(poly, du), du)), byteEncode(compress(v, dv), dv))
+}
+
+// Algorithm 15
+function pkeDecrypt(decryptionKey: Uint8Array, ciphertext: Uint8Array, { k, du, dv }: MlKemParams) {
+  const u = Array.from({ length: k }, (_, i) =>
+    ntt(decompress(byteDecode(ciphertext.subarray(32 * du * i, 32 * du * (i + 1)), du), du)),
+  )
+  const v = decompress(byteDecode(ciphertext.subarray(32 * du * k), dv), dv)
+  const s = Array.from({ length: k }, (_, i) => byteDecode(decryptionKey.subarray(384 * i, 384 * (i + 1)), 12))
+  const w = subtractPolys(v, inverseNtt(innerProduct(s, u)))
+  return byteEncode(compress(w, 1), 1)
+}
+
+// --- ML-KEM, section 6 ---
+
+function constantTimeEqual(a: Uint8Array, b: Uint8Array) {
+  if (a.length !== b.length) return false
+  let diff = 0
+  for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i]
+  return diff === 0
+}
+
+export function mlKemKeygen(
+  seed: Uint8Array = window.crypto.getRandomValues(new Uint8Array(ML_KEM_SEED_LENGTH)),
+  params: MlKemParams = ML_KEM_768,
+): MlKemKeyPair {
+  if (seed.length !== ML_KEM_SEED_LENGTH) throw new Error("ML-KEM seed must be 64 bytes")
+
+  const { encryptionKey, decryptionKey } = pkeKeygen(seed.subarray(0, 32), params)
+  return {
+    publicKey: encryptionKey,
+    secretKey: concatBytes(decryptionKey, encryptionKey, sha3_256(encryptionKey), seed.subarray(32)),
+  }
+}
+
+export function mlKemEncapsulate(
+  publicKey: Uint8Array,
+  randomness: Uint8Array = window.crypto.getRandomValues(new Uint8Array(32)),
+  params: MlKemParams = ML_KEM_768,
+): { ciphertext: Uint8Array; sharedSecret: Uint8Array } {
+  const { k } = params
+  if (publicKey.length !== mlKemPublicKeyLength(params)) throw new Error("Invalid ML-KEM public key length")
+  // Modulus check: every coefficient must already be reduced mod q
+  for (let i = 0; i < k; i++) {
+    const encoded = publicKey.subarray(384 * i, 384 * (i + 1))
+    if (!constantTimeEqual(byteEncode(byteDecode(encoded, 12), 12), encoded)) {
+      throw new Error("Invalid ML-KEM public key")
+    }
+  }
+  if (randomness.length !== 32) throw new Error("ML-KEM encapsulation randomness must be 32 bytes")
+
+  const g = sha3_512(concatBytes(randomness, sha3_256(publicKey)))
+  return {
+    sharedSecret: g.slice(0, 32),
+    ciphertext: pkeEncrypt(publicKey, randomness, g.slice(32), params),
+  }
+}
+
+// A ciphertext that doesn't re-encrypt to itself yields an unrelated secret instead of an error (implicit rejection)
+export function mlKemDecapsulate(
+  ciphertext: Uint8Array,
+  secretKey: Uint8Array,
+  params: MlKemParams = ML_KEM_768,
+): Uint8Array {
+  const { k } = params
+  if (ciphertext.length !== mlKemCiphertextLength(params)) throw new Error("Invalid ML-KEM ciphertext length")
+  if (secretKey.length !== mlKemSecretKeyLength(params)) throw new Error("Invalid ML-KEM secret key length")
+
+  const decryptionKey = secretKey.subarray(0, 384 * k)
+  const encryptionKey = secretKey.subarray(384 * k, 768 * k + 32)
+  const hash = secretKey.subarray(768 * k + 32, 768 * k + 64)
+  const z = secretKey.subarray(768 * k + 64)
+  if (!constantTimeEqual(sha3_256(encryptionKey), hash)) throw new Error("Invalid ML-KEM secret key")
+
+  const message = pkeDecrypt(decryptionKey, ciphertext, params)
+  const g = sha3_512(concatBytes(message, hash))
+  const rejection = shake256(concatBytes(z, ciphertext), 32)
+  const reencrypted = pkeEncrypt(encryptionKey, message, g.slice(32), params)
+
+  const accept = constantTimeEqual(reencrypted, ciphertext)
+  return accept ? g.slice(0, 32) : rejection
+}
@@ -0,0 +1,108 @@
+// Append-only operation log with Lamport clocks. Every replica (a browser tab
+// or remote peer) stamps its operations with (counter, replica), and all
+// replicas sort the merged log the same way, so replaying it yields the same
+// state everywhere regardless of the order operations arrived in. The replica
+// tag is drawn fresh for each operation: it only has to break ties, and a
+// fixed one would link everything a tab wrote, such as a sealed message and
+// the user-joined of the person who sent it.
+
+export interface LamportClock {
+  counter: number
+  replica: string
+}
+
+export interface LoggedOperation<T> {
+  id: string
+  clock: LamportClock
+  op: T
+  // Set once key material has been stripped from the operation; a redacted copy always wins a merge
+  redacted?: boolean
+}
+
+export function createReplicaId(): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(8)), (b) => b.toString(16).padStart(2, "0")).join("")
+}
+
+export function compareOperations<T>(a: LoggedOperation<T>, b: LoggedOperation<T>): number {
+  if (a.clock.counter !== b.clock.counter) return a.clock.counter - b.clock.counter
+  if (a.clock.replica !== b.clock.replica) return a.clock.replica < b.clock.replica ? -1 : 1
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0
+}
+
+export class OperationLog<T> {
+  private entries: LoggedOperation<T>[] = []
+  private ids: Set<string> = new Set()
+  private counter = 0
+
+  // Stamp a local operation with the next clock value
+  append(op: T): LoggedOperation<T> {
+    this.counter += 1
+    const replica = createReplicaId()
+    const entry = { id: `${replica}:${this.counter}`, clock: { counter: this.counter, replica }, op }
+    this.insert([entry])
+    return entry
+  }
+
+  // Merge operations from storage or another replica; returns the ones we had not seen or that arrived redacted
+  merge(entries: LoggedOperation<T>[]): LoggedOperation<T>[] {
+    const incoming = Array.from(new Map(entries.map((entry) => [entry.id, entry])).values())
+    const redacted = incoming.filter((entry) => entry.redacted && this.ids.has(entry.id) && !this.isRedacted(entry.id))
+    redacted.forEach((entry) => {
+      this.entries = this.entries.map((existing) => (existing.id === entry.id ? entry : existing))
+    })
+
+    const added = incoming.filter((entry) => !this.ids.has(entry.id))
+    if (added.length === 0) return redacted
+
+    added.forEach((entry) => {
+      this.counter = Math.max(this.counter, entry.clock.counter)
+    })
+    this.insert(added)
+    return [...redacted, ...added]
+  }
+
+  // Replace matching operations with a stripped copy so their secrets are not kept or re-synced
+  redact(match: (op: T) => boolean, strip: (op: T) => T): LoggedOperation<T>[] {
+    const redacted: LoggedOperation<T>[] = []
+    this.entries = this.entries.map((entry) => {
+      if (entry.redacted || !match(entry.op)) return entry
+      const stripped = { ...entry, op: strip(entry.op), redacted: true }
+      redacted.push(stripped)
+      return stripped
+    })
+    return redacted
+  }
+
+  has(id: string): boolean {
+    return this.ids.has(id)
+  }
+
+  all(): readonly LoggedOperation<T>[] {
+    return this.entries
+  }
+
+  replay<S>(reducer: (state: S, op: T) => S, initial: S): S {
+    return this.entries.reduce((state, entry) => reducer(state, entry.op), initial)
+  }
+
+  clear() {
+    this.entries = []
+    this.ids.clear()
+  }
+
+  // Drop matching operations entirely; their ids are remembered so replicas that still hold them can't merge them back
+  prune(match: (op: T) => boolean): number {
+    const before = this.entries.length
+    this.entries = this.entries.filter((entry) => !match(entry.op))
+    return before - this.entries.length
+  }
+
+  private isRedacted(id: string): boolean {
+    return this.entries.some((entry) => entry.id === id && entry.redacted)
+  }
+
+  private insert(entries: LoggedOperation<T>[]) {
+    entries.forEach((entry) => this.ids.add(entry.id))
+    this.entries = [...this.entries, ...entries].sort(compareOperations)
+  }
+}
@@ -16,6 +16,8 @@ import {
 } from "@/components/ui/dialog"
 import { Textarea } from "@/components/ui/textarea"
 import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Carousel, CarouselContent, CarouselItem, CarouselNext, CarouselPrevious } from "@/components/ui/carousel"
 import {
   Users,
   Send,
@@ -30,11 +32,306 @@ import {
   MessageCircle,
   LucideUser,
   LogOut,
+  Timer,
+  Paperclip,
+  X,
+  FileText,
+  ImageIcon,
+  MonitorSmartphone,
+  ScanLine,
+  Download,
+  Upload,
+  Flame,
+  Ruler,
+  AlertTriangle,
+  ShieldCheck,
+  Ban,
 } from "lucide-react"
+import {
+  deleteKeyDatabase,
+  deleteSealedPlaintexts,
+  loadAgreementKeyPair,
+  loadDeviceId,
+  loadIdentityKeyPair,
+  loadKemSeed,
+  loadPlaintextKey,
+  loadSealedPlaintexts,
+  loadSenderChains,
+  loadSigningKeyPair,
+  loadSyncKey,
+  loadTrustLedger,
+  saveAgreementKeyPair,
+  saveDeviceId,
+  saveIdentityKeyPair,
+  saveKemSeed,
+  savePlaintextKey,
+  saveSyncKey,
+  saveSealedPlaintext,
+  saveSenderChains,
+  saveSigningKeyPair,
+  saveTrustLedger,
+} from "@/lib/key-store"
+import {
+  acceptKeyChange,
+  observeIdentity,
+  setTrust,
+  type KeyChange,
+  type LedgerEntry,
+  type TrustLedger,
+  type TrustState,
+} from "@/lib/trust-ledger"
+import { DEFAULT_PBKDF2_ITERATIONS, hashPassword, needsRehash, verifyPassword } from "@/lib/password-hash"
+import {
+  createSyncKdfParams,
+  createVaultKdfParams,
+  deriveVaultKey,
+  isSealedVault,
+  openVault,
+  sealVault,
+  type SealedVault,
+  type VaultKdfParams,
+} from "@/lib/vault"
+import {
+  createRecoveryCodes,
+  createTotpSecret,
+  hashRecoveryCode,
+  TOTP_DIGITS,
+  totpUri,
+  verifyTotp,
+} from "@/lib/totp"
+import {
+  clearAttempts,
+  failureCount,
+  formatRetryDelay,
+  loginAttemptKey,
+  pinAttemptKey,
+  beginAttempt,
+  recordSuccess,
+  retryDelay,
+  roomAttemptKey,
+} from "@/lib/attempt-limiter"
+import { BACKUP_FILE_TYPE, backupFileName, openBackup, sealBackup } from "@/lib/account-backup"
+import {
+  BroadcastChannelTransport,
+  createSyncTransport,
+  type SyncMessage,
+  type SyncTransport,
+} from "@/lib/sync-transport"
+import { compareOperations, OperationLog, type LoggedOperation } from "@/lib/op-log"
+import { computeSafetyNumber, formatSafetyNumber } from "@/lib/safety-number"
+import {
+  acceptLinkRequest,
+  createLinkCode,
+  createLinkRequest,
+  createLinkSession,
+  isLinkMessage,
+  LINK_CODE_LENGTH,
+  linkCodeUri,
+  openLinkResponse,
+  parseLinkCode,
+  type LinkMessage,
+  type LinkSession,
+} from "@/lib/device-link"
+import QRCode from "qrcode"
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp"
+import {
+  decryptAttachment,
+  encryptAttachment,
+  formatFileSize,
+  isImageAttachment,
+  MAX_ATTACHMENT_SIZE,
+  type AttachmentRef,
+} from "@/lib/attachments"
+import {
+  EnvelopeAlgorithm,
+  isEnvelope,
+  openEnvelope,
+  openLegacyCiphertext,
+  sealEnvelope,
+  type EnvelopeContext,
+} from "@/lib/message-envelope"
+import { DEFAULT_PADDING, type PaddingScheme } from "@/lib/message-padding"
+import { hybridOpen, hybridSeal, isHybridSealed } from "@/lib/hybrid-kem"
+import { ML_KEM_SEED_LENGTH, mlKemKeygen, type MlKemKeyPair } from "@/lib/ml-kem"
+import {
+  chainFromDistribution,
+  createSenderChain,
+  distributionFromChain,
+  ratchetDecrypt,
+  ratchetEncrypt,
+  SENDER_KEY_ROTATION_INTERVAL,
+  type SenderChainState,
+  type SenderKeyDistribution,
+} from "@/lib/sender-keys"
+
+// Room keys and sender-key chains as handed to another device of the account; never leaves a device unencrypted.
+// Identity keys never leave the device that made them, a linked device makes its own, see LinkedDevice
+interface RoomKeyring {
+  roomKeys: { [roomKeyId: string]: string } // base64 raw AES keys
+  senderChains: { [chainId: string]: SenderChainState }
+}
+
+// Base64 PKCS#8 private key and SPKI public key
+interface ExportedKeyPair {
+  privateKey: string
+  publicKey: string
+}
+
+// A one-off signing key a backup carries, so the device it is restored on can replace the account's keys
+interface SuccessorKey extends ExportedKeyPair {
+  endorsement: string // By the backed-up device's signing key over successorPayload
+}
+
+// Version 1 backups also carried the identity's private keys; they're imported non-extractable
+interface LegacyDeviceKeys extends RoomKeyring {
+  encryption: ExportedKeyPair
+  signing: ExportedKeyPair
+  agreement: ExportedKeyPair
+  kem?: string // base64 ML-KEM seed; missing from keys exported before hybrid key exchange
+}
+
+// Room keys are replaced whenever a member leaves; each replacement bumps the room's key epoch
+const roomKeyId = (roomId: string, epoch: number) => `${roomId}#${epoch}`
+
+const senderChainId = (roomId: string, senderId: string, distributionId: string) =>
+  `${roomId}|${senderId}|${distributionId}`
+
+// A member's published keys. Keys sent to them are wrapped with hybrid ECDH + ML-KEM when they publish both
+// halves, and with their RSA-OAEP key otherwise
+interface ContactKeys {
+  publicKey: string
+  agreementKey?: string
+  kemKey?: string
+}
+
+type KeyExchange = "hybrid" | "rsa-oaep"
+
+const KEY_EXCHANGE_LABELS: Record<KeyExchange, string> = {
+  hybrid: "Hybrid ECDH P-256 + ML-KEM-768",
+  "rsa-oaep": "RSA-OAEP",
+}
+
+const keyExchangeFor = ({ agreementKey, kemKey }: Pick<ContactKeys, "agreementKey" | "kemKey">): KeyExchange =>
+  agreementKey && kemKey ? "hybrid" : "rsa-oaep"
+
+// Only the identity's published keys: a key request naming any other key, e.g. one from an older session or one
+// someone else slipped in under this id, gets nothing
+const contactKeysOf = (identity: Identity | undefined, publicKey = identity?.publicKey): ContactKeys | undefined => {
+  if (!identity?.publicKey || identity.publicKey !== publicKey) return undefined
+  return { publicKey, agreementKey: identity.agreementKey, kemKey: identity.kemKey }
+}
+
+// Keys are wrapped for each device of an account under its own slot: the account id for the device the account
+// was created on, and accountId/deviceId for devices linked to it later
+const deviceSlot = (userId: string, deviceId?: string | null) => (deviceId ? `${userId}/${deviceId}` : userId)
+const slotOwner = (slot: string) => slot.split("/")[0]
+
+// The public keys a linked device made for itself
+interface DeviceKeys extends ContactKeys {
+  signingKey: string
+  agreementKey: string
+  kemKey: string
+}
+
+// A linked device's keys, with the account's signature to show the account's first device vouched for them
+interface LinkedDevice extends DeviceKeys {
+  endorsement: string
+}
+
+// What a new device sends along with its pairing request
+interface NewDevice {
+  deviceId: string
+  keys: DeviceKeys
+}
+
+// The Shape Detection API isn't in TypeScript's DOM types yet; just what the pairing QR scanner uses
+interface BarcodeDetector {
+  detect(source: HTMLVideoElement): Promise<{ rawValue: string }[]>
+}
+
+type BarcodeDetectorWindow = Window & {
+  BarcodeDetector: new (options: { formats: string[] }) => BarcodeDetector
+}
+
+const isNewDevice = (value: unknown): value is NewDevice => {
+  const device = value as NewDevice | null
+  return (
+    typeof device?.deviceId === "string" &&
+    /^[\w-]+$/.test(device.deviceId) &&
+    ["publicKey", "signingKey", "agreementKey", "kemKey"].every(
+      (key) => typeof device.keys?.[key as keyof DeviceKeys] === "string",
+    )
+  )
+}
+
+const deviceEndorsementPayload = (userId: string, deviceId: string, keys: DeviceKeys) =>
+  JSON.stringify(["nofeds-device", userId, deviceId, keys.publicKey, keys.signingKey, keys.agreementKey, keys.kemKey])
+
+const successorPayload = (userId: string, successor: string) => JSON.stringify(["nofeds-successor", userId, successor])
+
+const identityKeysPayload = (userId: string, keys: Partial<DeviceKeys>) =>
+  JSON.stringify(["nofeds-identity-keys", userId, keys.publicKey, keys.signingKey, keys.agreementKey, keys.kemKey])
+
+// What a wrapped key is for, bound into hybrid wraps so one can't be passed off as another
+const roomKeyContext = (roomId: string, epoch: number) => `room-key:${roomKeyId(roomId, epoch)}`
+const senderKeyContext = (roomId: string, distributionId: string) => `sender-key:${roomId}#${distributionId}`
+// Sender keys wrapped before the sender moved inside the wrapped key were bound to the sender instead
+const legacySenderKeyContext = (roomId: string, senderId: string) => `sender-key:${roomId}|${senderId}`
+const keyringContext = (userId: string, deviceId: string) => `keyring:${deviceSlot(userId, deviceId)}`
+
+// Metadata is bound to its room, so it can't be copied onto another room or passed off as a message
+const sealMetadataWith = (roomKey: CryptoKey, roomId: string, epoch: number, metadata: RoomMetadata) =>
+  sealEnvelope(
+    roomKey,
+    JSON.stringify(metadata),
+    { algorithm: EnvelopeAlgorithm.RoomKey, keyEpoch: epoch },
+    { roomId, messageId: roomId, subject: "room-metadata" },
+    // A room's name is as telling as a message, whatever the room has chosen for its messages
+    "bucket",
+  )
+
+// ECDSA P-256 over the payload's UTF-8 bytes; throws if the key or signature isn't valid base64 DER
+async function verifySignature(payload: string, signature: string, signingKey: string): Promise<boolean> {
+  const toBytes = (value: string) =>
+    new Uint8Array(
+      atob(value)
+        .split("")
+        .map((c) => c.charCodeAt(0)),
+    )
+  const publicKey = await window.crypto.subtle.importKey(
+    "spki",
+    toBytes(signingKey),
+    { name: "ECDSA", namedCurve: "P-256" },
+    false,
+    ["verify"],
+  )
+  return window.crypto.subtle.verify(
+    { name: "ECDSA", hash: "SHA-256" },
+    publicKey,
+    toBytes(signature),
+    new TextEncoder().encode(payload),
+  )
+}
 
 class EncryptionManager {
   private keyPair: CryptoKeyPair | null = null
-  private roomKeys: Map<string, CryptoKey> = new Map()
+  private signingKeyPair: CryptoKeyPair | null = null
+  private agreementKeyPair: CryptoKeyPair | null = null
+  private kemSeed: Uint8Array | null = null
+  private kemKeyPair: MlKemKeyPair | null = null
+  private deviceId: string | null = null // Set when this device was linked to the account, see deviceSlot
+  private roomKeys: Map<string, CryptoKey> = new Map() // Keyed by roomKeyId, so older epochs stay readable
+  // Sender-key chains for group rooms, keyed by room, sender and distribution
+  private senderChains: Map<string, SenderChainState> = new Map()
+  // Our own current distribution per room
+  private ownDistributions: Map<string, string> = new Map()
+  // Message keys are deleted once used, so keep what we decrypted (or sent); sealed in the key store under
+  // plaintextKey so history stays readable after a reload or a lock
+  private plaintexts: Map<string, string> = new Map()
+  private plaintextKey: CryptoKey | null = null
+  private chainAccountId: string | null = null
+  // Chain updates must not interleave or a message key could be reused or lost
+  private chainQueue: Promise<unknown> = Promise.resolve()
 
   async generateKeyPair(): Promise<CryptoKeyPair> {
     if (this.keyPair) return this.keyPair
@@ -46,10 +343,546 @@ class EncryptionManager {
         publicExponent: new Uint8Array([1, 0, 1]),
         hash: "SHA-256",
       },
+      false, // The private key can never be exported; the public key always can
+      ["encrypt", "decrypt", "wrapKey", "unwrapKey"],
+    )
+    return this.keyPair
+  }
+
+  // Messages are signed with a separate ECDSA key so nobody can post under another user's id
+  async generateSigningKeyPair(): Promise<CryptoKeyPair> {
+    if (this.signingKeyPair) return this.signingKeyPair
+
+    this.signingKeyPair = await window.crypto.subtle.generateKey({ name: "ECDSA", namedCurve: "P-256" }, false, [
+      "sign",
+      "verify",
+    ])
+    return this.signingKeyPair
+  }
+
+  async exportSigningKey(): Promise<string> {
+    if (!this.signingKeyPair) await this.generateSigningKeyPair()
+    const exported = await window.crypto.subtle.exportKey("spki", this.signingKeyPair!.publicKey)
+    return btoa(String.fromCharCode(...new Uint8Array(exported)))
+  }
+
+  async sign(payload: string): Promise<string> {
+    if (!this.signingKeyPair) await this.generateSigningKeyPair()
+    const signature = await window.crypto.subtle.sign(
+      { name: "ECDSA", hash: "SHA-256" },
+      this.signingKeyPair!.privateKey,
+      new TextEncoder().encode(payload),
+    )
+    return btoa(String.fromCharCode(...new Uint8Array(signature)))
+  }
+
+  async verify(payload: string, signature: string, signingKey: string): Promise<boolean> {
+    return verifySignature(payload, signature, signingKey)
+  }
+
+  // Direct messages use a key agreed between the two users' ECDH identity keys
+  async generateAgreementKeyPair(): Promise<CryptoKeyPair> {
+    if (this.agreementKeyPair) return this.agreementKeyPair
+
+    this.agreementKeyPair = await window.crypto.subtle.generateKey({ name: "ECDH", namedCurve: "P-256" }, false, [
+      "deriveBits",
+    ])
+    return this.agreementKeyPair
+  }
+
+  async exportAgreementKey(): Promise<string> {
+    if (!this.agreementKeyPair) await this.generateAgreementKeyPair()
+    const exported = await window.crypto.subtle.exportKey("spki", this.agreementKeyPair!.publicKey)
+    return btoa(String.fromCharCode(...new Uint8Array(exported)))
+  }
+
+  // ECDH with the other user's agreement key, then HKDF bound to the conversation id
+  async deriveDirectRoomKey(roomId: string, theirAgreementKey: string): Promise<CryptoKey> {
+    if (!this.agreementKeyPair) await this.generateAgreementKeyPair()
+
+    const theirKey = await window.crypto.subtle.importKey(
+      "spki",
+      new Uint8Array(
+        atob(theirAgreementKey)
+          .split("")
+          .map((c) => c.charCodeAt(0)),
+      ),
+      { name: "ECDH", namedCurve: "P-256" },
+      false,
+      [],
+    )
+    const sharedSecret = await window.crypto.subtle.deriveBits(
+      { name: "ECDH", public: theirKey },
+      this.agreementKeyPair!.privateKey,
+      256,
+    )
+    const hkdfKey = await window.crypto.subtle.importKey("raw", sharedSecret, "HKDF", false, ["deriveKey"])
+    const roomKey = await window.crypto.subtle.deriveKey(
+      {
+        name: "HKDF",
+        hash: "SHA-256",
+        salt: new TextEncoder().encode(roomId),
+        info: new TextEncoder().encode("nofeds-direct-message"),
+      },
+      hkdfKey,
+      { name: "AES-GCM", length: 256 },
       true,
       ["encrypt", "decrypt"],
     )
-    return this.keyPair
+    this.roomKeys.set(roomKeyId(roomId, 0), roomKey)
+    return roomKey
+  }
+
+  // The post-quantum half of hybrid key exchange, expanded from a seed since ML-KEM has no CryptoKey
+  generateKemKeyPair(): MlKemKeyPair {
+    if (this.kemKeyPair) return this.kemKeyPair
+
+    this.kemSeed ??= window.crypto.getRandomValues(new Uint8Array(ML_KEM_SEED_LENGTH))
+    this.kemKeyPair = mlKemKeygen(this.kemSeed)
+    return this.kemKeyPair
+  }
+
+  exportKemKey(): string {
+    return btoa(String.fromCharCode(...this.generateKemKeyPair().publicKey))
+  }
+
+  async exportContactKeys(): Promise<ContactKeys> {
+    return {
+      publicKey: await this.exportPublicKey(),
+      agreementKey: await this.exportAgreementKey(),
+      kemKey: this.exportKemKey(),
+    }
+  }
+
+  async exportDeviceKeys(): Promise<DeviceKeys> {
+    return {
+      publicKey: await this.exportPublicKey(),
+      signingKey: await this.exportSigningKey(),
+      agreementKey: await this.exportAgreementKey(),
+      kemKey: this.exportKemKey(),
+    }
+  }
+
+  // Endorsed by this device, for a backup to carry, see KeyChangeProof
+  async createSuccessorKey(accountId: string): Promise<SuccessorKey> {
+    const keyPair = await window.crypto.subtle.generateKey({ name: "ECDSA", namedCurve: "P-256" }, true, [
+      "sign",
+      "verify",
+    ])
+    const exported = async (format: "pkcs8" | "spki", key: CryptoKey) =>
+      btoa(String.fromCharCode(...new Uint8Array(await window.crypto.subtle.exportKey(format, key))))
+    const publicKey = await exported("spki", keyPair.publicKey)
+    return {
+      privateKey: await exported("pkcs8", keyPair.privateKey),
+      publicKey,
+      endorsement: await this.sign(successorPayload(accountId, publicKey)),
+    }
+  }
+
+  // Authorizes this device's keys as the account's new ones with a successor key from a backup
+  async signKeyChange(accountId: string, successor: SuccessorKey): Promise<KeyChangeProof> {
+    const toBytes = (value: string) =>
+      new Uint8Array(
+        atob(value)
+          .split("")
+          .map((c) => c.charCodeAt(0)),
+      )
+    const privateKey = await window.crypto.subtle.importKey(
+      "pkcs8",
+      toBytes(successor.privateKey),
+      { name: "ECDSA", namedCurve: "P-256" },
+      false,
+      ["sign"],
+    )
+    const payload = identityKeysPayload(accountId, await this.exportDeviceKeys())
+    const signature = await window.crypto.subtle.sign(
+      { name: "ECDSA", hash: "SHA-256" },
+      privateKey,
+      new TextEncoder().encode(payload),
+    )
+    return {
+      successor: successor.publicKey,
+      endorsement: successor.endorsement,
+      signature: btoa(String.fromCharCode(...new Uint8Array(signature))),
+    }
+  }
+
+  getDeviceId(): string | null {
+    return this.deviceId
+  }
+
+  // Switch to an account's identity key pairs, generating and persisting them on first use
+  async loadIdentity(accountId: string, persist = true): Promise<CryptoKeyPair> {
+    this.reset()
+
+    const [stored, storedSigning, storedAgreement, storedKemSeed, storedDeviceId] = persist
+      ? await Promise.all([
+          loadIdentityKeyPair(accountId),
+          loadSigningKeyPair(accountId),
+          loadAgreementKeyPair(accountId),
+          loadKemSeed(accountId),
+          loadDeviceId(accountId),
+        ])
+      : [null, null, null, null, null]
+    this.deviceId = storedDeviceId
+
+    this.signingKeyPair = storedSigning
+    const signingKeyPair = await this.generateSigningKeyPair()
+    if (persist && !storedSigning) await saveSigningKeyPair(accountId, signingKeyPair)
+
+    this.agreementKeyPair = storedAgreement
+    const agreementKeyPair = await this.generateAgreementKeyPair()
+    if (persist && !storedAgreement) await saveAgreementKeyPair(accountId, agreementKeyPair)
+
+    this.kemSeed = storedKemSeed
+    this.generateKemKeyPair()
+    if (persist && !storedKemSeed) await saveKemSeed(accountId, this.kemSeed!)
+
+    if (persist) {
+      const stored = await loadSenderChains<SenderChainState>(accountId)
+      Object.entries(stored).forEach(([key, chain]) => this.senderChains.set(key, chain))
+      this.senderChains.forEach((chain, key) => {
+        const [roomId, senderId] = key.split("|")
+        if (senderId === deviceSlot(accountId, this.deviceId)) this.ownDistributions.set(roomId, chain.distributionId)
+      })
+      this.chainAccountId = accountId
+      await this.loadPlaintexts(accountId)
+    }
+
+    if (stored) {
+      this.keyPair = stored
+      return stored
+    }
+
+    const keyPair = await this.generateKeyPair()
+    if (persist) await saveIdentityKeyPair(accountId, keyPair)
+    return keyPair
+  }
+
+  // Room keys and sender chains another device of this account needs to read what this one can
+  async exportKeyring(): Promise<RoomKeyring> {
+    const roomKeys: RoomKeyring["roomKeys"] = {}
+    for (const [id, key] of this.roomKeys) {
+      roomKeys[id] = btoa(String.fromCharCode(...new Uint8Array(await window.crypto.subtle.exportKey("raw", key))))
+    }
+    return { roomKeys, senderChains: Object.fromEntries(this.senderChains) }
+  }
+
+  // The keyring sealed for a newly linked device's own keys, see sealForContact
+  async wrapKeyringFor(userId: string, deviceId: string, device: DeviceKeys): Promise<string> {
+    const payload = new TextEncoder().encode(JSON.stringify(await this.exportKeyring()))
+    return this.sealForContact(payload, device, keyringContext(userId, deviceId))
+  }
+
+  // New device: keep the identity made for the pairing (see loadIdentity with persist off) as this device's keys for
+  // the account, then take in the keyring the existing device wrapped for it
+  async linkIdentity(accountId: string, deviceId: string, wrappedKeyring: string): Promise<void> {
+    if (!this.keyPair || !this.signingKeyPair || !this.agreementKeyPair || !this.kemSeed) {
+      throw new Error("Identity not loaded")
+    }
+    // Everyone wraps for the keys of the device an account was created on, so those must never be replaced
+    if ((await loadIdentityKeyPair(accountId)) && !(await loadDeviceId(accountId))) {
+      throw new Error("This device already has keys for the account; sign in instead")
+    }
+    const opened = await this.openFromContact(wrappedKeyring, keyringContext(accountId, deviceId))
+    const keyring: RoomKeyring = JSON.parse(new TextDecoder().decode(opened))
+
+    await saveIdentityKeyPair(accountId, this.keyPair)
+    await saveSigningKeyPair(accountId, this.signingKeyPair)
+    await saveAgreementKeyPair(accountId, this.agreementKeyPair)
+    await saveKemSeed(accountId, this.kemSeed)
+    await saveDeviceId(accountId, deviceId)
+    await this.importKeyring(accountId, keyring)
+  }
+
+  // Load the account's identity (making one on first use) and add room keys and sender chains from elsewhere
+  async importKeyring(accountId: string, keyring: RoomKeyring): Promise<void> {
+    const ownSlot = deviceSlot(accountId, await loadDeviceId(accountId))
+    const stored = await loadSenderChains<SenderChainState>(accountId)
+    // Chains already here are at least as far along. Our own chains from a backup went stale once it was made, and
+    // sending on from one would reuse its message keys, so those are left behind for a fresh chain
+    const imported = Object.entries(keyring.senderChains).filter(([id]) => id.split("|")[1] !== ownSlot)
+    await saveSenderChains(accountId, { ...Object.fromEntries(imported), ...stored })
+
+    await this.loadIdentity(accountId)
+    const toBytes = (value: string) =>
+      new Uint8Array(
+        atob(value)
+          .split("")
+          .map((c) => c.charCodeAt(0)),
+      )
+    for (const [id, rawKey] of Object.entries(keyring.roomKeys)) {
+      const roomKey = await window.crypto.subtle.importKey("raw", toBytes(rawKey), { name: "AES-GCM" }, true, [
+        "encrypt",
+        "decrypt",
+      ])
+      this.roomKeys.set(id, roomKey)
+    }
+  }
+
+  // Store private keys from a version 1 backup as this account's identity. They're imported non-extractable, so
+  // they can't leave this device again
+  async importLegacyKeys(accountId: string, keys: LegacyDeviceKeys): Promise<void> {
+    const toBytes = (value: string) =>
+      new Uint8Array(
+        atob(value)
+          .split("")
+          .map((c) => c.charCodeAt(0)),
+      )
+    const importPair = async (
+      pair: ExportedKeyPair,
+      algorithm: RsaHashedImportParams | EcKeyImportParams,
+      privateUsages: KeyUsage[],
+      publicUsages: KeyUsage[],
+    ): Promise<CryptoKeyPair> => ({
+      privateKey: await window.crypto.subtle.importKey("pkcs8", toBytes(pair.privateKey), algorithm, false, privateUsages),
+      publicKey: await window.crypto.subtle.importKey("spki", toBytes(pair.publicKey), algorithm, true, publicUsages),
+    })
+
+    await saveIdentityKeyPair(
+      accountId,
+      await importPair(keys.encryption, { name: "RSA-OAEP", hash: "SHA-256" }, ["decrypt", "unwrapKey"], [
+        "encrypt",
+        "wrapKey",
+      ]),
+    )
+    await saveSigningKeyPair(
+      accountId,
+      await importPair(keys.signing, { name: "ECDSA", namedCurve: "P-256" }, ["sign"], ["verify"]),
+    )
+    await saveAgreementKeyPair(
+      accountId,
+      await importPair(keys.agreement, { name: "ECDH", namedCurve: "P-256" }, ["deriveBits"], []),
+    )
+    // Keys from a device without one get a fresh KEM key on load, published with the next join
+    if (keys.kem) await saveKemSeed(accountId, toBytes(keys.kem))
+    await this.importKeyring(accountId, keys)
+  }
+
+  reset() {
+    this.keyPair = null
+    this.signingKeyPair = null
+    this.agreementKeyPair = null
+    this.kemSeed = null
+    this.kemKeyPair = null
+    this.deviceId = null
+    this.roomKeys.clear()
+    this.senderChains.clear()
+    this.ownDistributions.clear()
+    this.plaintexts.clear()
+    this.plaintextKey = null
+    this.chainAccountId = null
+  }
+
+  // Our sender key for a room, or null when we have to start a new chain
+  getOwnSenderKey(roomId: string, senderId: string): SenderKeyDistribution | null {
+    const distributionId = this.ownDistributions.get(roomId)
+    const chain = distributionId ? this.senderChains.get(senderChainId(roomId, senderId, distributionId)) : undefined
+    if (!chain || chain.iteration >= SENDER_KEY_ROTATION_INTERVAL) return null
+    return distributionFromChain(chain)
+  }
+
+  // Start a fresh chain for our messages in a room, discarding the previous one
+  startSenderKey(roomId: string, senderId: string): Promise<SenderKeyDistribution> {
+    return this.withChains(async () => {
+      const previous = this.ownDistributions.get(roomId)
+      if (previous) this.senderChains.delete(senderChainId(roomId, senderId, previous))
+
+      const chain = createSenderChain()
+      this.senderChains.set(senderChainId(roomId, senderId, chain.distributionId), chain)
+      this.ownDistributions.set(roomId, chain.distributionId)
+      return distributionFromChain(chain)
+    })
+  }
+
+  // Encrypt a sender key for one member, see sealForContact
+  async wrapSenderKey(
+    roomId: string,
+    senderId: string,
+    distribution: SenderKeyDistribution,
+    contact: ContactKeys,
+  ): Promise<string> {
+    const payload = new TextEncoder().encode(JSON.stringify({ roomId, senderId, ...distribution }))
+    return this.sealForContact(payload, contact, senderKeyContext(roomId, distribution.distributionId))
+  }
+
+  // Take in a sender key another member wrapped for us; never moves an existing chain backwards. Whose chain it is
+  // comes from inside the wrapped key, except on legacy deliveries that named the sender in the clear
+  async importSenderKey(
+    roomId: string,
+    distributionId: string,
+    wrappedKey: string,
+    legacySenderId?: string,
+  ): Promise<void> {
+    const context = legacySenderId
+      ? legacySenderKeyContext(roomId, legacySenderId)
+      : senderKeyContext(roomId, distributionId)
+    const decrypted = await this.openFromContact(wrappedKey, context)
+    const { roomId: keyRoomId, senderId, ...distribution } = JSON.parse(new TextDecoder().decode(decrypted))
+    if (keyRoomId !== roomId || distribution.distributionId !== distributionId) {
+      throw new Error("Sender key was issued for another room")
+    }
+    if (typeof senderId !== "string" || (legacySenderId && senderId !== legacySenderId)) {
+      throw new Error("Sender key names no sender")
+    }
+
+    await this.withChains(async () => {
+      const id = senderChainId(roomId, senderId, distribution.distributionId)
+      const existing = this.senderChains.get(id)
+      if (existing && existing.iteration >= distribution.iteration) return
+      this.senderChains.set(id, chainFromDistribution(distribution))
+    })
+  }
+
+  async encryptWithSenderKey(
+    roomId: string,
+    senderId: string,
+    messageId: string,
+    message: string,
+    keyEpoch = 0,
+    padding: PaddingScheme = DEFAULT_PADDING,
+  ): Promise<{ content: string; senderKey: { distributionId: string; iteration: number } }> {
+    return this.withChains(async () => {
+      const distributionId = this.ownDistributions.get(roomId)
+      const chain = distributionId && this.senderChains.get(senderChainId(roomId, senderId, distributionId))
+      if (!distributionId || !chain) throw new Error("No sender key for this room")
+
+      const senderKey = { distributionId, iteration: chain.iteration }
+      const result = await ratchetEncrypt(chain, (messageKey) =>
+        sealEnvelope(
+          messageKey,
+          message,
+          { algorithm: EnvelopeAlgorithm.SenderKey, keyEpoch },
+          { roomId, messageId, senderKey },
+          padding,
+        ),
+      )
+      this.senderChains.set(senderChainId(roomId, senderId, distributionId), result.state)
+      await this.rememberPlaintext(messageId, message)
+      return { content: result.ciphertext, senderKey: { distributionId, iteration: result.iteration } }
+    })
+  }
+
+  // Returns null while we don't hold the sender's chain; throws once the message key is gone
+  async decryptWithSenderKey(roomId: string, message: ChatMessage): Promise<string | null> {
+    const cached = this.plaintexts.get(message.id)
+    if (cached !== undefined) return cached
+    if (!message.senderKey) throw new Error("Message was not sent with a sender key")
+
+    const { distributionId, iteration } = message.senderKey
+    return this.withChains(async () => {
+      const cachedNow = this.plaintexts.get(message.id)
+      if (cachedNow !== undefined) return cachedNow
+
+      const id = this.findSenderChain(roomId, distributionId, message.senderId)
+      const chain = id && this.senderChains.get(id)
+      if (!id || !chain) return null
+
+      const context: EnvelopeContext = {
+        roomId,
+        messageId: message.id,
+        senderId: message.senderId,
+        senderKey: message.senderKey,
+      }
+      const result = await ratchetDecrypt(chain, iteration, (messageKey) =>
+        isEnvelope(message.content)
+          ? openEnvelope(
+              messageKey,
+              message.content,
+              { algorithm: EnvelopeAlgorithm.SenderKey, keyEpoch: message.keyEpoch ?? 0 },
+              context,
+            )
+          : openUnboundCiphertext(messageKey, message),
+      )
+      this.senderChains.set(id, result.state)
+      await this.rememberPlaintext(message.id, result.plaintext)
+      return result.plaintext
+    })
+  }
+
+  // Sealed-sender messages only name the chain, so whose it is comes from the delivery that handed it to us
+  senderKeyOwner(roomId: string, distributionId: string): string | null {
+    const id = this.findSenderChain(roomId, distributionId)
+    return id ? slotOwner(id.split("|")[1]) : null
+  }
+
+  // Chains are kept per device slot, while messages name the account that sent them
+  private findSenderChain(roomId: string, distributionId: string, senderId?: string): string | undefined {
+    return [...this.senderChains.keys()].find((id) => {
+      const [chainRoomId, slot, chainDistributionId] = id.split("|")
+      return (
+        chainRoomId === roomId && chainDistributionId === distributionId && (!senderId || slotOwner(slot) === senderId)
+      )
+    })
+  }
+
+  // Plaintexts of sender-key messages we've read; their message keys are gone, so backups carry these instead
+  exportPlaintexts(messageIds: string[]): { [messageId: string]: string } {
+    const plaintexts: { [messageId: string]: string } = {}
+    messageIds.forEach((id) => {
+      const plaintext = this.plaintexts.get(id)
+      if (plaintext !== undefined) plaintexts[id] = plaintext
+    })
+    return plaintexts
+  }
+
+  // Expired messages are gone from the log, so what we kept of them goes too
+  async forgetPlaintexts(messageIds: string[]): Promise<void> {
+    if (messageIds.length === 0) return
+    messageIds.forEach((id) => this.plaintexts.delete(id))
+    await deleteSealedPlaintexts(messageIds)
+  }
+
+  async importPlaintexts(plaintexts: { [messageId: string]: string }): Promise<void> {
+    for (const [id, plaintext] of Object.entries(plaintexts)) await this.rememberPlaintext(id, plaintext)
+  }
+
+  private async loadPlaintexts(accountId: string) {
+    this.plaintextKey = await loadPlaintextKey(accountId)
+    if (!this.plaintextKey) {
+      this.plaintextKey = await window.crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, [
+        "encrypt",
+        "decrypt",
+      ])
+      await savePlaintextKey(accountId, this.plaintextKey)
+    }
+
+    for (const { messageId, iv, ciphertext } of await loadSealedPlaintexts(accountId)) {
+      try {
+        const plaintext = await window.crypto.subtle.decrypt(
+          { name: "AES-GCM", iv: new Uint8Array(iv), additionalData: new TextEncoder().encode(messageId) },
+          this.plaintextKey,
+          ciphertext,
+        )
+        this.plaintexts.set(messageId, new TextDecoder().decode(plaintext))
+      } catch (error) {
+        console.error("[v0] Failed to open stored message:", error)
+      }
+    }
+  }
+
+  // Sealed to the message id, so a record can't be moved onto another message
+  private async rememberPlaintext(messageId: string, plaintext: string) {
+    this.plaintexts.set(messageId, plaintext)
+    if (!this.chainAccountId || !this.plaintextKey) return
+
+    const iv = window.crypto.getRandomValues(new Uint8Array(12))
+    const ciphertext = await window.crypto.subtle.encrypt(
+      { name: "AES-GCM", iv, additionalData: new TextEncoder().encode(messageId) },
+      this.plaintextKey,
+      new TextEncoder().encode(plaintext),
+    )
+    await saveSealedPlaintext(this.chainAccountId, { messageId, iv, ciphertext })
+  }
+
+  private withChains<T>(action: () => Promise<T>): Promise<T> {
+    const run = this.chainQueue.then(async () => {
+      const result = await action()
+      if (this.chainAccountId) await saveSenderChains(this.chainAccountId, Object.fromEntries(this.senderChains))
+      return result
+    })
+    this.chainQueue = run.catch(() => {})
+    return run
   }
 
   async exportPublicKey(): Promise<string> {
@@ -63,182 +896,1455 @@ class EncryptionManager {
       "encrypt",
       "decrypt",
     ])
-    this.roomKeys.set(roomId, roomKey)
+    this.roomKeys.set(roomKeyId(roomId, 0), roomKey)
     return roomKey
   }
 
-  async encryptMessage(message: string, roomId: string): Promise<string> {
-    const roomKey = this.roomKeys.get(roomId)
+  // A replacement room key wrapped for each remaining member, with the room's metadata resealed under it;
+  // kept out of roomKeys until the rotation lands
+  async generateWrappedRoomKey(
+    roomId: string,
+    epoch: number,
+    contacts: { [userId: string]: ContactKeys },
+    metadata?: RoomMetadata,
+  ): Promise<{ wrappedKeys: { [userId: string]: string }; sealedMeta?: string }> {
+    const roomKey = await window.crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, true, [
+      "encrypt",
+      "decrypt",
+    ])
+    const wrappedKeys: { [userId: string]: string } = {}
+    for (const [userId, contact] of Object.entries(contacts)) {
+      wrappedKeys[userId] = await this.wrapKeyFor(roomKey, contact, roomKeyContext(roomId, epoch))
+    }
+    const sealedMeta = metadata ? await sealMetadataWith(roomKey, roomId, epoch, metadata) : undefined
+    return { wrappedKeys, sealedMeta }
+  }
+
+  // Password-protected rooms derive their key from the password, so only people who know it can read them
+  async deriveRoomKey(roomId: string, password: string, salt: string): Promise<CryptoKey> {
+    const baseKey = await window.crypto.subtle.importKey(
+      "raw",
+      new TextEncoder().encode(password),
+      "PBKDF2",
+      false,
+      ["deriveKey"],
+    )
+    const roomKey = await window.crypto.subtle.deriveKey(
+      {
+        name: "PBKDF2",
+        salt: new Uint8Array(
+          atob(salt)
+            .split("")
+            .map((c) => c.charCodeAt(0)),
+        ),
+        iterations: DEFAULT_PBKDF2_ITERATIONS,
+        hash: "SHA-256",
+      },
+      baseKey,
+      { name: "AES-GCM", length: 256 },
+      true,
+      ["encrypt", "decrypt"],
+    )
+    this.roomKeys.set(roomKeyId(roomId, 0), roomKey)
+    return roomKey
+  }
+
+  // Anyone can add themselves to a room's member list, so in a password room members first show they could derive
+  // the key. The proof is their id sealed under it, which can't be replayed for anyone else
+  async sealMembershipProof(roomId: string, userId: string): Promise<string> {
+    const roomKey = this.roomKeys.get(roomKeyId(roomId, 0))
     if (!roomKey) throw new Error("No room key found")
+    return sealEnvelope(
+      roomKey,
+      userId,
+      { algorithm: EnvelopeAlgorithm.RoomKey, keyEpoch: 0 },
+      { roomId, messageId: userId, subject: "room-membership" },
+      "none",
+    )
+  }
 
-    const encoder = new TextEncoder()
-    const data = encoder.encode(message)
-    const iv = window.crypto.getRandomValues(new Uint8Array(12))
+  async checkMembershipProof(roomId: string, userId: string, proof: string | undefined): Promise<boolean> {
+    const roomKey = this.roomKeys.get(roomKeyId(roomId, 0))
+    if (!roomKey || !proof) return false
+    try {
+      const header = { algorithm: EnvelopeAlgorithm.RoomKey, keyEpoch: 0 }
+      const context: EnvelopeContext = { roomId, messageId: userId, subject: "room-membership" }
+      return (await openEnvelope(roomKey, proof, header, context)) === userId
+    } catch {
+      return false
+    }
+  }
 
-    const encrypted = await window.crypto.subtle.encrypt({ name: "AES-GCM", iv }, roomKey, data)
+  hasRoomKey(roomId: string, epoch = 0): boolean {
+    return this.roomKeys.has(roomKeyId(roomId, epoch))
+  }
 
-    const combined = new Uint8Array(iv.length + encrypted.byteLength)
-    combined.set(iv)
-    combined.set(new Uint8Array(encrypted), iv.length)
+  // Wrap the room key for a member so only they can unwrap it
+  async wrapRoomKey(roomId: string, contact: ContactKeys, epoch = 0): Promise<string> {
+    const roomKey = this.roomKeys.get(roomKeyId(roomId, epoch))
+    if (!roomKey) throw new Error("No room key found")
+    return this.wrapKeyFor(roomKey, contact, roomKeyContext(roomId, epoch))
+  }
 
-    return btoa(String.fromCharCode(...combined))
+  private async wrapKeyFor(roomKey: CryptoKey, contact: ContactKeys, context: string): Promise<string> {
+    const rawKey = await window.crypto.subtle.exportKey("raw", roomKey)
+    return this.sealForContact(rawKey, contact, context)
   }
 
-  async decryptMessage(encryptedMessage: string, roomId: string): Promise<string> {
-    const roomKey = this.roomKeys.get(roomId)
+  // Hybrid when the contact publishes an ML-KEM key, so a recording of the log stays sealed against a
+  // quantum attacker; RSA-OAEP for contacts on older clients. The hybrid form is prefixed, see lib/hybrid-kem
+  private async sealForContact(payload: BufferSource, contact: ContactKeys, context: string): Promise<string> {
+    if (keyExchangeFor(contact) === "hybrid") {
+      return hybridSeal(payload, { agreementKey: contact.agreementKey!, kemKey: contact.kemKey! }, context)
+    }
+
+    const memberKey = await window.crypto.subtle.importKey(
+      "spki",
+      new Uint8Array(
+        atob(contact.publicKey)
+          .split("")
+          .map((c) => c.charCodeAt(0)),
+      ),
+      { name: "RSA-OAEP", hash: "SHA-256" },
+      false,
+      ["encrypt"],
+    )
+    const wrapped = await window.crypto.subtle.encrypt({ name: "RSA-OAEP" }, memberKey, payload)
+    return btoa(String.fromCharCode(...new Uint8Array(wrapped)))
+  }
+
+  private async openFromContact(sealed: string, context: string) {
+    if (isHybridSealed(sealed)) {
+      const { secretKey } = this.generateKemKeyPair()
+      if (!this.agreementKeyPair) await this.generateAgreementKeyPair()
+      return hybridOpen(
+        sealed,
+        {
+          agreementKey: await this.exportAgreementKey(),
+          agreementPrivateKey: this.agreementKeyPair!.privateKey,
+          kemKey: this.exportKemKey(),
+          kemSecretKey: secretKey,
+        },
+        context,
+      )
+    }
+
+    if (!this.keyPair) await this.generateKeyPair()
+    return window.crypto.subtle.decrypt(
+      { name: "RSA-OAEP" },
+      this.keyPair!.privateKey,
+      new Uint8Array(
+        atob(sealed)
+          .split("")
+          .map((c) => c.charCodeAt(0)),
+      ),
+    )
+  }
+
+  // Unwrap a room key that another member wrapped for us
+  async unwrapRoomKey(roomId: string, wrappedKey: string, epoch = 0): Promise<CryptoKey> {
+    const rawKey = await this.openFromContact(wrappedKey, roomKeyContext(roomId, epoch))
+    const roomKey = await window.crypto.subtle.importKey("raw", rawKey, { name: "AES-GCM" }, true, [
+      "encrypt",
+      "decrypt",
+    ])
+    this.roomKeys.set(roomKeyId(roomId, epoch), roomKey)
+    return roomKey
+  }
+
+  async encryptMessage(
+    message: string,
+    roomId: string,
+    messageId: string,
+    epoch = 0,
+    padding: PaddingScheme = DEFAULT_PADDING,
+  ): Promise<string> {
+    const roomKey = this.roomKeys.get(roomKeyId(roomId, epoch))
     if (!roomKey) throw new Error("No room key found")
 
-    const combined = new Uint8Array(
-      atob(encryptedMessage)
-        .split("")
-        .map((c) => c.charCodeAt(0)),
+    return sealEnvelope(
+      roomKey,
+      message,
+      { algorithm: EnvelopeAlgorithm.RoomKey, keyEpoch: epoch },
+      { roomId, messageId },
+      padding,
+    )
+  }
+
+  async sealRoomMetadata(roomId: string, metadata: RoomMetadata, epoch = 0): Promise<string> {
+    const roomKey = this.roomKeys.get(roomKeyId(roomId, epoch))
+    if (!roomKey) throw new Error("No room key found")
+    return sealMetadataWith(roomKey, roomId, epoch, metadata)
+  }
+
+  async openRoomMetadata(roomId: string, sealedMeta: string, epoch = 0): Promise<RoomMetadata> {
+    const roomKey = this.roomKeys.get(roomKeyId(roomId, epoch))
+    if (!roomKey) throw new Error("No room key found")
+
+    const metadata = JSON.parse(
+      await openEnvelope(
+        roomKey,
+        sealedMeta,
+        { algorithm: EnvelopeAlgorithm.RoomKey, keyEpoch: epoch },
+        { roomId, messageId: roomId, subject: "room-metadata" },
+      ),
     )
-    const iv = combined.slice(0, 12)
-    const encrypted = combined.slice(12)
+    return {
+      name: String(metadata.name),
+      description: metadata.description || undefined,
+      createdBy: String(metadata.createdBy),
+    }
+  }
+
+  // Rejects envelopes whose room, message id or key epoch (and, for old envelopes, sender) don't match the message
+  // they arrived in
+  async decryptMessage(message: ChatMessage, roomId: string): Promise<string> {
+    const epoch = message.keyEpoch ?? 0
+    const roomKey = this.roomKeys.get(roomKeyId(roomId, epoch))
+    if (!roomKey) throw new Error("No room key found")
 
-    const decrypted = await window.crypto.subtle.decrypt({ name: "AES-GCM", iv }, roomKey, encrypted)
+    if (!isEnvelope(message.content)) return openUnboundCiphertext(roomKey, message)
+    return openEnvelope(
+      roomKey,
+      message.content,
+      { algorithm: EnvelopeAlgorithm.RoomKey, keyEpoch: epoch },
+      { roomId, messageId: message.id, senderId: message.senderId },
+    )
+  }
+}
 
-    const decoder = new TextDecoder()
-    return decoder.decode(decrypted)
+// Messages from before envelopes named their sender in the clear, and system notices weren't encrypted yet. Anything
+// else in the pre-envelope format was made to dodge the envelope's binding. What does open still needs a signature
+// to show as verified, see verifyMessage
+function openUnboundCiphertext(key: CryptoKey, message: ChatMessage): Promise<string> {
+  if (!message.senderId || message.type === "system") {
+    return Promise.reject(new Error("Message is too new to lack an envelope"))
   }
+  return openLegacyCiphertext(key, message.content)
 }
 
 class RealTimeSync {
-  private channel: BroadcastChannel | null = null
+  private transport: SyncTransport
   private storageKey = "nofeds-app-data"
+  private log: OperationLog<SyncOperation> = new OperationLog()
+  private loaded = false
+  private derived: AppData | null = null
+  private listeners: Set<(data: AppData) => void> = new Set()
+  // While the vault is unlocked the log is only readable from memory
+  private vaultKey: CryptoKey | null = null
+  private vaultKdf: VaultKdfParams | null = null
+  private pendingSeal: Promise<void> = Promise.resolve()
+  // Peers on other machines have vaults of their own, so operations over a relay are sealed under a key every
+  // device in the group derives from a shared sync passphrase instead, see setSyncPassphrase
+  private syncKey: CryptoKey | null = null
+  private syncKdf: VaultKdfParams | null = null
+  private linkListeners: Set<(message: LinkMessage) => void> = new Set()
+  // Wipes and auto-lock events reach other tabs of this browser only, whichever transport syncs operations
+  private localChannel: SyncTransport = new BroadcastChannelTransport("nofeds-local")
+  private wipeListeners: Set<() => void> = new Set()
+  private sessionListeners: Set<(event: SessionEvent) => void> = new Set()
+  // Bumped by every wipe so a seal that was already in flight can't write the old log back
+  private generation = 0
+
+  constructor(transport: SyncTransport = createSyncTransport()) {
+    this.transport = transport
+    this.transport.onMessage((message) => this.receive(message))
+    this.localChannel.onMessage((message) => {
+      if (message.type === "wipe") this.forget()
+      if (message.type === "vault-disabled") {
+        // Another tab turned the vault off, so the plain log in storage is current again
+        this.lockVault()
+        this.notify()
+      }
+      if (message.type === "session" && isSessionEvent(message.data)) {
+        const event = message.data
+        this.sessionListeners.forEach((listener) => listener(event))
+      }
+    })
+    console.log("[v0] Sync transport:", transport.name)
+  }
 
-  constructor() {
+  // Record local operations, persist them and send them to other tabs and peers
+  append(...ops: SyncOperation[]) {
     try {
-      this.channel = new BroadcastChannel("nofeds-sync")
-      console.log("[v0] BroadcastChannel created successfully")
+      if (this.isVaultLocked()) {
+        console.warn("[v0] Vault is locked, skipping operations")
+        return
+      }
+
+      this.ensureLoaded()
+      const entries = ops.map((op) => this.log.append(op))
+      this.persist()
+      this.broadcast(entries)
+      this.notify()
     } catch (error) {
-      console.error("[v0] Failed to create BroadcastChannel:", error)
-      this.channel = null
+      console.error("[v0] Failed to append operations:", error)
     }
   }
 
-  // Save data to localStorage and broadcast to other tabs
-  saveData(data: any) {
+  // Strip secrets from logged operations here and on every other replica
+  redact(match: (op: SyncOperation) => boolean, strip: (op: SyncOperation) => SyncOperation) {
     try {
-      localStorage.setItem(this.storageKey, JSON.stringify(data))
-      if (this.channel) {
-        this.channel.postMessage({ type: "data-update", data })
-      }
-      console.log("[v0] Data saved successfully")
+      if (this.isVaultLocked()) return
+
+      this.ensureLoaded()
+      const entries = this.log.redact(match, strip)
+      if (entries.length === 0) return
+      this.persist()
+      this.broadcast(entries)
+      this.notify()
     } catch (error) {
-      console.error("[v0] Failed to save data:", error)
+      console.error("[v0] Failed to redact operations:", error)
     }
   }
 
-  // Load data from localStorage
-  loadData() {
+  // Remove messages older than their room's expiry from the log and storage; every tab runs this on its own.
+  // Returns the ids of the messages removed
+  purgeExpired(now = Date.now()): string[] {
     try {
-      const stored = localStorage.getItem(this.storageKey)
-      const result = stored ? JSON.parse(stored) : null
-      console.log("[v0] Data loaded successfully")
-      return result
+      if (this.isVaultLocked()) return []
+
+      const data = this.loadData()
+      if (!data) return []
+      const ttls = new Map(data.rooms.filter((room) => room.messageTtl).map((room) => [room.id, room.messageTtl!]))
+      if (ttls.size === 0) return []
+
+      const messageIds: string[] = []
+      const removed = this.log.prune((op) => {
+        if (op.kind !== "message-sent" && op.kind !== "attachment-uploaded") return false
+        const sentAt = op.kind === "message-sent" ? op.message.timestamp : op.uploadedAt
+        const expired = ttls.has(op.roomId) && new Date(sentAt).getTime() + ttls.get(op.roomId)! <= now
+        if (expired && op.kind === "message-sent") messageIds.push(op.message.id)
+        return expired
+      })
+      if (removed === 0) return []
+
+      console.log("[v0] Purged expired messages:", removed)
+      this.persist()
+      this.notify()
+      return messageIds
+    } catch (error) {
+      console.error("[v0] Failed to purge expired messages:", error)
+      return []
+    }
+  }
+
+  // Current state, derived by replaying the operation log
+  loadData(): AppData | null {
+    try {
+      this.ensureLoaded()
+      if (!this.loaded) return null
+
+      // Anything unreadable that is already in the log is skipped rather than allowed to stop the replay
+      if (!this.derived) {
+        this.derived = this.log.replay(
+          (data, op) => (isSyncOperation(op) ? applyOperation(data, op) : data),
+          emptyAppData(),
+        )
+      }
+      return this.derived
     } catch (error) {
       console.error("[v0] Failed to load data:", error)
       return null
     }
   }
 
-  // Listen for updates from other tabs
-  onUpdate(callback: (data: any) => void) {
-    if (!this.channel) {
-      console.warn("[v0] BroadcastChannel not available, skipping onUpdate")
-      return
+  // Listen for state changes from this tab, other tabs and peers; returns a function that stops listening
+  onUpdate(callback: (data: AppData) => void): () => void {
+    this.listeners.add(callback)
+    return () => {
+      this.listeners.delete(callback)
     }
+  }
+
+  isVaultEnabled(): boolean {
+    return !!this.vaultKey || isSealedVault(this.readStored())
+  }
+
+  isVaultLocked(): boolean {
+    return !this.vaultKey && isSealedVault(this.readStored())
+  }
 
+  // A relay only carries operations once this device knows the group's sync passphrase
+  needsSyncPassphrase(): boolean {
+    return this.transport.isRemote && !this.syncKey
+  }
+
+  // Returns whether this device already joined the sync group on an earlier visit
+  async loadSyncKey(): Promise<boolean> {
+    if (!this.transport.isRemote) return true
     try {
-      this.channel.addEventListener("message", (event) => {
-        try {
-          if (event.data.type === "data-update") {
-            callback(event.data.data)
-          }
-        } catch (error) {
-          console.error("[v0] Error in message callback:", error)
-        }
-      })
-      console.log("[v0] Update listener added successfully")
+      const key = await loadSyncKey(this.transport.group)
+      if (!key) return false
+      this.syncKey = key
+      this.syncKdf = await createSyncKdfParams(this.transport.group)
+      return true
     } catch (error) {
-      console.error("[v0] Failed to add update listener:", error)
+      console.error("[v0] Failed to load sync key:", error)
+      return false
     }
   }
 
-  broadcastUpdate(key: string, data: any) {
-    if (!this.channel) {
-      console.warn("[v0] BroadcastChannel not available, skipping broadcast")
-      return
+  // Every device in the group must enter the same passphrase; a different one just fails to open their frames
+  async setSyncPassphrase(passphrase: string) {
+    const kdf = await createSyncKdfParams(this.transport.group)
+    const key = await deriveVaultKey(passphrase, kdf)
+    await saveSyncKey(this.transport.group, key)
+    this.syncKey = key
+    this.syncKdf = kdf
+
+    // Catch the group up on whatever was written before we could seal it
+    this.ensureLoaded()
+    if (this.loaded) this.broadcast([...this.log.all()])
+  }
+
+  // Seal the log under a key derived from the passphrase
+  async enableVault(passphrase: string) {
+    this.ensureLoaded()
+    const kdf = createVaultKdfParams()
+    this.vaultKey = await deriveVaultKey(passphrase, kdf)
+    this.vaultKdf = kdf
+    this.persist()
+    await this.pendingSeal
+  }
+
+  // Throws if the passphrase is wrong
+  async unlockVault(passphrase: string) {
+    const sealed = this.readStored()
+    if (!isSealedVault(sealed)) return
+
+    const key = await deriveVaultKey(passphrase, sealed.kdf)
+    const opened = storedData(await openVault<unknown>(sealed, key))
+    this.vaultKey = key
+    this.vaultKdf = sealed.kdf
+    this.loadStored(opened)
+    this.notify()
+  }
+
+  // Write the log back as plain JSON
+  async disableVault() {
+    if (!this.vaultKey) return
+
+    await this.pendingSeal
+    this.vaultKey = null
+    this.vaultKdf = null
+    this.persist()
+    // Only tabs sharing this storage care; peers on a relay keep their own vaults
+    this.localChannel.send({ type: "vault-disabled" })
+  }
+
+  lockVault() {
+    this.vaultKey = null
+    this.vaultKdf = null
+    this.log.clear()
+    this.loaded = false
+    this.derived = null
+  }
+
+  // Logged operations as stored, clocks included, so a restore merges them back without duplicates
+  exportOperations(match: (op: SyncOperation) => boolean): LoggedOperation<SyncOperation>[] {
+    this.ensureLoaded()
+    return this.log.all().filter((entry) => match(entry.op))
+  }
+
+  // Merge operations from a backup as if a peer had sent them; returns how many were new here
+  restore(entries: LoggedOperation<SyncOperation>[]): number {
+    if (this.isVaultLocked()) throw new Error("Unlock the vault before restoring a backup")
+
+    this.ensureLoaded()
+    const merged = this.log.merge(validOperations(entries, "the backup"))
+    if (merged.length === 0) return 0
+    this.persist()
+    this.broadcast(merged)
+    this.notify()
+    return merged.length
+  }
+
+  // Panic wipe: drop the log, erase it from storage and tell every other tab to drop theirs
+  wipe() {
+    this.forget()
+    this.localChannel.send({ type: "wipe" })
+  }
+
+  onWipe(callback: () => void): () => void {
+    this.wipeListeners.add(callback)
+    return () => {
+      this.wipeListeners.delete(callback)
     }
+  }
 
-    try {
-      this.channel.postMessage({ type: "update", key, data })
-      console.log("[v0] Update broadcast successfully")
-    } catch (error) {
-      console.error("[v0] Failed to broadcast update:", error)
+  sendSessionEvent(event: SessionEvent) {
+    this.localChannel.send({ type: "session", data: event })
+  }
+
+  onSessionEvent(callback: (event: SessionEvent) => void): () => void {
+    this.sessionListeners.add(callback)
+    return () => {
+      this.sessionListeners.delete(callback)
+    }
+  }
+
+  // Pairing messages are end-to-end encrypted by lib/device-link, so they go out even while the vault is off or locked
+  sendDeviceLink(message: LinkMessage) {
+    this.transport.send({ type: "device-link", data: message })
+  }
+
+  onDeviceLink(callback: (message: LinkMessage) => void): () => void {
+    this.linkListeners.add(callback)
+    return () => {
+      this.linkListeners.delete(callback)
     }
   }
 
   // Clean up
   close() {
     try {
-      if (this.channel) {
-        this.channel.close()
-        console.log("[v0] BroadcastChannel closed successfully")
+      this.transport.close()
+      this.localChannel.close()
+      console.log("[v0] Sync transport closed successfully")
+    } catch (error) {
+      console.error("[v0] Failed to close sync transport:", error)
+    }
+  }
+
+  private receive(message: SyncMessage) {
+    try {
+      if (message.type === "device-link") {
+        const link = message.data
+        if (isLinkMessage(link)) this.linkListeners.forEach((listener) => listener(link))
+        return
+      }
+      if (message.type !== "operations") return
+
+      const data = message.data
+      const key = this.transport.isRemote ? this.syncKey : this.vaultKey
+      if (!isSealedVault(data)) {
+        if (!this.transport.isRemote) this.mergeRemote(data)
+      } else if (!key) {
+        if (this.transport.isRemote) console.warn("[v0] No sync passphrase yet, dropped operations from the relay")
+      } else {
+        openVault<unknown>(data, key)
+          .then((entries) => this.mergeRemote(entries))
+          .catch((error) => console.error("[v0] Failed to open sealed operations:", error))
       }
     } catch (error) {
-      console.error("[v0] Failed to close BroadcastChannel:", error)
+      console.error("[v0] Error in message callback:", error)
+    }
+  }
+
+  private forget() {
+    this.generation += 1
+    this.lockVault()
+    this.syncKey = null
+    this.syncKdf = null
+    localStorage.removeItem(this.storageKey)
+    console.log("[v0] Local data wiped")
+    this.wipeListeners.forEach((listener) => listener())
+    this.notify()
+  }
+
+  private async mergeRemote(entries: unknown) {
+    try {
+      this.ensureLoaded()
+      if (!this.loaded) return
+      const authorized = await this.authorize(validOperations(entries, "another replica"))
+      // The vault may have been locked while the signatures were checked
+      if (!this.loaded || this.log.merge(authorized).length === 0) return
+
+      console.log("[v0] Merged operations from another replica")
+      this.persist()
+      this.notify()
+    } catch (error) {
+      console.error("[v0] Failed to merge operations:", error)
     }
   }
+
+  // Drops new operations that change what only their owner may change without the owner's signature. Each is
+  // checked against the state with the accepted ones before it applied, so an account published in the same batch
+  // counts
+  private async authorize(entries: LoggedOperation<SyncOperation>[]): Promise<LoggedOperation<SyncOperation>[]> {
+    let data = this.loadData() ?? emptyAppData()
+    const authorized: LoggedOperation<SyncOperation>[] = []
+    for (const entry of [...entries].sort(compareOperations)) {
+      if (this.log.has(entry.id)) {
+        authorized.push(entry)
+      } else if (await isAuthorized(entry.op, data)) {
+        authorized.push(entry)
+        data = applyOperation(data, entry.op)
+      } else {
+        console.warn("[v0] Dropped unauthorized operation:", entry.op.kind)
+      }
+    }
+    return authorized
+  }
+
+  private notify() {
+    this.derived = null
+    const data = this.loadData()
+    if (data) this.listeners.forEach((listener) => listener(data))
+  }
+
+  private ensureLoaded() {
+    if (this.loaded || this.vaultKey) return
+
+    const stored = this.readStored()
+    if (isSealedVault(stored)) return
+    this.loadStored(storedData(stored))
+  }
+
+  private loadStored(stored: StoredLog | AppData | null) {
+    this.log.clear()
+    if (stored && "log" in stored) {
+      this.log.merge(validOperations(stored.log, "storage"))
+    } else if (stored && "users" in stored) {
+      // Snapshot written before the operation log existed
+      snapshotToOperations(stored).forEach((op) => this.log.append(op))
+    }
+    this.loaded = true
+    this.derived = null
+  }
+
+  private persist() {
+    if (this.vaultKey) {
+      this.sealAndStore()
+      return
+    }
+    if (this.isVaultLocked()) return
+
+    // Fold in whatever other tabs wrote since we last read so nobody's operations are lost
+    const stored = storedData(this.readStored())
+    if (stored && "log" in stored) this.log.merge(validOperations(stored.log, "storage"))
+
+    const data: StoredLog = { format: "nofeds-oplog", version: 1, log: [...this.log.all()] }
+    localStorage.setItem(this.storageKey, JSON.stringify(data))
+  }
+
+  private broadcast(entries: LoggedOperation<SyncOperation>[]) {
+    const key = this.transport.isRemote ? this.syncKey : this.vaultKey
+    if (!key) {
+      this.send({ type: "operations", data: entries }, false)
+      return
+    }
+
+    const kdf = (this.transport.isRemote ? this.syncKdf : this.vaultKdf)!
+    this.pendingSeal = this.pendingSeal
+      .then(async () => this.send({ type: "operations", data: await sealVault(entries, key, kdf) }, true))
+      .catch((error) => console.error("[v0] Failed to seal operations:", error))
+  }
+
+  // Remote transports must never see plaintext operations
+  private send(message: SyncMessage, sealed: boolean) {
+    if (this.transport.isRemote && !sealed) {
+      console.warn("[v0] Relay transport requires the sync passphrase, skipping plaintext broadcast")
+      return
+    }
+    this.transport.send(message)
+  }
+
+  private readStored(): unknown {
+    try {
+      const stored = localStorage.getItem(this.storageKey)
+      return stored ? JSON.parse(stored) : null
+    } catch {
+      return null
+    }
+  }
+
+  private sealAndStore() {
+    const key = this.vaultKey!
+    const kdf = this.vaultKdf!
+    const data: StoredLog = { format: "nofeds-oplog", version: 1, log: [...this.log.all()] }
+    const generation = this.generation
+
+    // Chain seals so an older snapshot can never land after a newer one
+    this.pendingSeal = this.pendingSeal
+      .then(async () => {
+        const sealed: SealedVault = await sealVault(data, key, kdf)
+        if (generation !== this.generation) return
+        localStorage.setItem(this.storageKey, JSON.stringify(sealed))
+        console.log("[v0] Sealed data saved successfully")
+      })
+      .catch((error) => console.error("[v0] Failed to seal data:", error))
+  }
 }
 
 interface ChatMessage {
   id: string
   content: string
-  sender: string
-  senderId: string
+  // In the clear only on system messages and history from before sealed senders; newer user messages carry
+  // both inside their SealedMessageBody
+  sender?: string
+  senderId?: string
   timestamp: Date
   type: "user" | "system"
   encrypted?: boolean
+  signature?: string // Legacy messages: ECDSA signature by the sender's identity key over messageSignaturePayload
+  senderKey?: { distributionId: string; iteration: number } // Where in the sender's chain the message key came from
+  keyEpoch?: number // Room key epoch the message was sent under
+  attachmentIds?: string[] // Encrypted chunks to fetch; their keys are inside the encrypted body
+}
+
+// Legacy messages with attachments encrypt this as JSON instead of bare text
+interface MessageBody {
+  text: string
+  attachments: AttachmentRef[]
+}
+
+// What a user message encrypts, so only those who can read it learn who wrote it
+interface SealedMessageBody extends MessageBody {
+  senderId: string
+  sender: string
+  signature: string // ECDSA signature by the sender's identity key over sealedSignaturePayload
+}
+
+// A user message as shown, whichever format it arrived in
+interface OpenedMessage extends MessageBody {
+  sender: string
+  senderId?: string
+  verification: "verified" | "unverified" | "invalid" | null
+}
+
+interface User {
+  id: string
+  nickname: string
+  status: "online" | "away" | "busy"
+  joinedAt: Date
+  avatar?: string
+  statusMessage?: string
+  lastSeen?: Date
+  email?: string
+  hasAccount: boolean
+  publicKey?: string // Base64 SPKI of the user's RSA-OAEP identity key
+  signingKey?: string // Base64 SPKI of the user's ECDSA signing key
+  agreementKey?: string // Base64 SPKI of the user's ECDH key for direct messages
+  kemKey?: string // Base64 ML-KEM-768 public key; with agreementKey, keys sent to them are wrapped hybrid
+  keyChange?: KeyChangeProof // Only on user-joined, when the keys replace ones the id already published
+}
+
+// Authorizes new keys for an identity that already has some: the old signing key endorsed a successor key, which
+// signed the new keys. A restored device gets the successor from the backup, since it never held the old key
+interface KeyChangeProof {
+  successor: string // Base64 SPKI of the successor's ECDSA key
+  endorsement: string // By the old signing key over successorPayload
+  signature: string // By the successor over identityKeysPayload
+}
+
+// Keys each user id joined with; kept after the user leaves so their messages stay verifiable
+interface Identity {
+  nickname: string
+  publicKey?: string
+  signingKey?: string
+  agreementKey?: string
+  kemKey?: string
+  devices?: { [deviceId: string]: LinkedDevice } // Only count once their endorsement checks out, see linkedDevices
+}
+
+interface Account {
+  id: string
+  nickname: string
+  passwordHash?: string // Versioned PBKDF2 hash, see lib/password-hash
+  password?: string // Legacy plaintext password, replaced by passwordHash on next login
+  createdAt: Date
+  avatar?: string
+  isTemporary?: boolean // Added flag for temporary accounts
+  duressHash?: string // Versioned PBKDF2 hash of the duress password; logging in with it wipes the device
+  autoLockAfter?: number // Lock the session after this many milliseconds without activity
+  pinHash?: string // Versioned PBKDF2 hash of a PIN that can unlock a locked session instead of the password
+  twoFactor?: SealedVault // TwoFactorState sealed under a key derived from the account password
+}
+
+// An account's TOTP settings; only readable once the password has been entered
+interface TwoFactorState {
+  secret: string // Base32 TOTP secret shared with the authenticator app
+  recoveryCodes: string[] // SHA-256 hashes of the unused recovery codes
+  lastCounter: number // Time step of the last accepted code, so no code works twice
+}
+
+// Sealed under the room key, so only those who can read the room know what it's called
+interface RoomMetadata {
+  name: string
+  description?: string
+  createdBy: string // Nickname
+}
+
+interface Room {
+  id: string
+  name?: string // Rooms from before sealed metadata; replaced by sealedMeta once a member reseals them
+  sealedMeta?: string // RoomMetadata envelope under the room key for metaEpoch
+  metaEpoch?: number
+  userCount: number
+  hasPassword: boolean
+  passwordVerifier?: string // Salted PBKDF2 hash of the room password, never the password itself
+  keySalt?: string // Salt for deriving the room key from the password
+  // Password rooms: each member's proof that they know the password, see sealMembershipProof
+  memberProofs?: { [userId: string]: string }
+  password?: string // Legacy plaintext password, replaced by passwordVerifier on next join
+  description?: string // Legacy, see name
+  createdBy?: string // Legacy, see name
+  kind?: "group" | "direct" // Direct rooms are 1:1 conversations keyed by ECDH between their two members
+  // User ids of the room's members; a direct room has exactly two. Left in the clear, like the recipients in
+  // senderKeys, because keys are routed by them
+  members?: string[]
+  wrappedKeys?: { [userId: string]: string } // Room key wrapped for each member, see sealForContact
+  keyRequests?: { [userId: string]: KeyRequest } // Members' devices still waiting for the room key
+  keyEpoch?: number // Bumped each time the room key is rotated
+  previousWrappedKeys?: { [epoch: number]: { [userId: string]: string } } // Older epochs, so members keep their history
+  rotationPending?: boolean // A member left and the room key has not been replaced yet
+  messageTtl?: number // Messages are deleted this many milliseconds after they were sent
+  padding?: PaddingScheme // How new messages hide their length; DEFAULT_PADDING when unset
+  // Device slots holding each sender-key chain, by distribution id. Whose chain it is only shows inside the wrapped
+  // keys, and senders hand their chain to their own slot too, so the recipients don't single them out either
+  senderKeys?: { [distributionId: string]: string[] }
+}
+
+// Signed by the requesting device, see keyRequestPayload; unsigned requests from older clients are ignored
+interface KeyRequest {
+  publicKey: string
+  signature?: string
+}
+
+// A sender key wrapped for one member; it leaves the log once they have imported it
+interface SenderKeyDelivery {
+  roomId: string
+  senderId?: string // Legacy deliveries only, see sender-key-distributed
+  recipientId: string
+  distributionId: string
+  wrappedKey: string
+}
+
+interface AppData {
+  users: User[]
+  rooms: Room[]
+  messages: { [roomId: string]: ChatMessage[] }
+  accounts: Account[]
+  identities: { [userId: string]: Identity }
+  senderKeyDeliveries: SenderKeyDelivery[]
+  attachments: { [attachmentId: string]: { roomId: string; chunks: string[] } }
+}
+
+// Every change to shared state is one of these operations; AppData is whatever replaying them produces
+type SyncOperation =
+  | { kind: "user-joined"; user: User }
+  | { kind: "user-left"; userId: string }
+  | { kind: "device-linked"; userId: string; deviceId: string; device: LinkedDevice }
+  | { kind: "status-changed"; userId: string; status?: User["status"]; statusMessage?: string }
+  | { kind: "room-created"; room: Room }
+  | { kind: "room-key-requested"; roomId: string; userId: string; publicKey: string; signature?: string }
+  | { kind: "room-keys-wrapped"; roomId: string; wrappedKeys: { [userId: string]: string } }
+  | { kind: "room-password-upgraded"; roomId: string; passwordVerifier: string }
+  | { kind: "room-member-added"; roomId: string; userId: string; proof?: string }
+  | { kind: "room-member-removed"; roomId: string; userId: string }
+  | { kind: "room-message-ttl-changed"; roomId: string; messageTtl?: number }
+  | { kind: "room-padding-changed"; roomId: string; padding: PaddingScheme }
+  | {
+      kind: "room-key-rotated"
+      roomId: string
+      keyEpoch: number
+      wrappedKeys: { [userId: string]: string }
+      sealedMeta?: string // The room's metadata resealed under the new key, so members who join later can read it
+    }
+  | {
+      kind: "sender-key-distributed"
+      roomId: string
+      senderId?: string // Legacy: named the sender in the clear; newer deliveries carry it inside wrappedKey
+      recipientId: string
+      distributionId: string
+      wrappedKey?: string // Stripped by the recipient after import so the chain key can't be recovered later
+    }
+  | { kind: "message-sent"; roomId: string; message: ChatMessage }
+  | { kind: "attachment-uploaded"; roomId: string; attachmentId: string; uploadedAt: Date; chunks: string[] }
+  | { kind: "account-created"; account: Account }
+  // A fresh account taking over an existing account's nickname, see the reducer
+  // Signed by a device of the replaced account, see accountReplacedPayload
+  | { kind: "account-replaced"; previousId: string; account: Account; signature?: string }
+  // Changes to an account are signed by one of its devices, see accountOperationPayload
+  | { kind: "account-password-upgraded"; accountId: string; passwordHash: string; signature?: string }
+  | { kind: "account-duress-password-set"; accountId: string; duressHash?: string; signature?: string }
+  | { kind: "account-auto-lock-changed"; accountId: string; autoLockAfter?: number; signature?: string }
+  | { kind: "account-pin-set"; accountId: string; pinHash?: string; signature?: string }
+  | { kind: "account-two-factor-changed"; accountId: string; twoFactor?: SealedVault; signature?: string }
+
+// Auto-lock coordination between tabs of one account; only ever sent within this browser
+type SessionEvent = { kind: "activity"; accountId: string; at: number } | { kind: "lock"; accountId: string }
+
+const isSessionEvent = (value: unknown): value is SessionEvent => {
+  const event = value as SessionEvent | null
+  if (typeof event?.accountId !== "string") return false
+  return event.kind === "lock" || (event.kind === "activity" && typeof event.at === "number")
+}
+
+// Operations arrive as JSON from storage, other tabs, peers and backups; one the reducer can't read would break
+// every replay of the log after it, so they are checked before they get in
+const isRecord = (value: unknown): value is { [key: string]: unknown } =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+const isString = (value: unknown): value is string => typeof value === "string"
+const isNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value)
+const isOptional = (value: unknown, check: (value: unknown) => boolean) => value === undefined || check(value)
+const isStringList = (value: unknown) => Array.isArray(value) && value.every(isString)
+const isStringMap = (value: unknown) => isRecord(value) && Object.values(value).every(isString)
+
+const isUser = (user: unknown) =>
+  isRecord(user) &&
+  isString(user.id) &&
+  isString(user.nickname) &&
+  [user.publicKey, user.signingKey, user.agreementKey, user.kemKey].every((key) => isOptional(key, isString)) &&
+  isOptional(
+    user.keyChange,
+    (change) => isRecord(change) && [change.successor, change.endorsement, change.signature].every(isString),
+  )
+
+const isRoom = (room: unknown) =>
+  isRecord(room) &&
+  isString(room.id) &&
+  isOptional(room.members, isStringList) &&
+  isOptional(room.wrappedKeys, isStringMap) &&
+  isOptional(room.keyEpoch, isNumber)
+
+const isMessage = (message: unknown) =>
+  isRecord(message) &&
+  isString(message.id) &&
+  isString(message.content) &&
+  isOptional(message.senderKey, (key) => isRecord(key) && isString(key.distributionId) && isNumber(key.iteration)) &&
+  isOptional(message.attachmentIds, isStringList)
+
+const isAccount = (account: unknown) => isRecord(account) && isString(account.id) && isString(account.nickname)
+const isAccountChange = (op: { [key: string]: unknown }) => isString(op.accountId) && isOptional(op.signature, isString)
+
+function isSyncOperation(value: unknown): value is SyncOperation {
+  if (!isRecord(value)) return false
+  const op = value
+  switch (op.kind) {
+    case "user-joined":
+      return isUser(op.user)
+    case "user-left":
+      return isString(op.userId)
+    case "device-linked":
+      return isString(op.userId) && isString(op.deviceId) && isRecord(op.device)
+    case "status-changed":
+      return isString(op.userId) && isOptional(op.status, isString) && isOptional(op.statusMessage, isString)
+    case "room-created":
+      return isRoom(op.room)
+    case "room-key-requested":
+      return isString(op.roomId) && isString(op.userId) && isString(op.publicKey) && isOptional(op.signature, isString)
+    case "room-keys-wrapped":
+      return isString(op.roomId) && isStringMap(op.wrappedKeys)
+    case "room-password-upgraded":
+      return isString(op.roomId) && isString(op.passwordVerifier)
+    case "room-member-added":
+      return isString(op.roomId) && isString(op.userId) && isOptional(op.proof, isString)
+    case "room-member-removed":
+      return isString(op.roomId) && isString(op.userId)
+    case "room-message-ttl-changed":
+      return isString(op.roomId) && isOptional(op.messageTtl, isNumber)
+    case "room-padding-changed":
+      return isString(op.roomId) && PADDING_OPTIONS.some((option) => option.value === op.padding)
+    case "room-key-rotated":
+      return (
+        isString(op.roomId) &&
+        isNumber(op.keyEpoch) &&
+        isStringMap(op.wrappedKeys) &&
+        isOptional(op.sealedMeta, isString)
+      )
+    case "sender-key-distributed":
+      return (
+        [op.roomId, op.recipientId, op.distributionId].every(isString) &&
+        isOptional(op.senderId, isString) &&
+        isOptional(op.wrappedKey, isString)
+      )
+    case "message-sent":
+      return isString(op.roomId) && isMessage(op.message)
+    case "attachment-uploaded":
+      return isString(op.roomId) && isString(op.attachmentId) && isStringList(op.chunks)
+    case "account-created":
+      return isAccount(op.account)
+    case "account-replaced":
+      return isString(op.previousId) && isAccount(op.account) && isOptional(op.signature, isString)
+    case "account-password-upgraded":
+      return isAccountChange(op) && isString(op.passwordHash)
+    case "account-duress-password-set":
+      return isAccountChange(op) && isOptional(op.duressHash, isString)
+    case "account-auto-lock-changed":
+      return isAccountChange(op) && isOptional(op.autoLockAfter, isNumber)
+    case "account-pin-set":
+      return isAccountChange(op) && isOptional(op.pinHash, isString)
+    case "account-two-factor-changed":
+      return isAccountChange(op) && isOptional(op.twoFactor, isSealedVault)
+    default:
+      return false
+  }
+}
+
+const isLoggedOperation = (value: unknown): value is LoggedOperation<SyncOperation> =>
+  isRecord(value) &&
+  isString(value.id) &&
+  isRecord(value.clock) &&
+  Number.isSafeInteger(value.clock.counter) &&
+  isString(value.clock.replica) &&
+  isOptional(value.redacted, (redacted) => typeof redacted === "boolean") &&
+  isSyncOperation(value.op)
+
+// Drops whatever fails the checks above, so the rest still merges
+function validOperations(entries: unknown, source: string): LoggedOperation<SyncOperation>[] {
+  if (!Array.isArray(entries)) return []
+  const valid = entries.filter(isLoggedOperation)
+  if (valid.length < entries.length) {
+    console.warn(`[v0] Dropped malformed operations from ${source}:`, entries.length - valid.length)
+  }
+  return valid
+}
+
+type AccountOperation = Extract<SyncOperation, { accountId: string }>
+
+// What an account's device signs to change the account: every field but the signature, in a fixed order
+const accountOperationPayload = (op: AccountOperation) => {
+  const { kind, accountId, signature, ...change } = op
+  const fields = Object.entries(change)
+    .filter(([, value]) => value !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : 1))
+  return JSON.stringify(["nofeds-account", kind, accountId, fields])
+}
+
+const accountReplacedPayload = (previousId: string, account: Account) =>
+  JSON.stringify(["nofeds-account-replaced", previousId, account])
+
+// Signed with the identity key of the account's first device, or with the key of a device the account endorsed
+async function isSignedByAccount(payload: string, signature: string | undefined, accountId: string, data: AppData) {
+  const identity = data.identities[accountId]
+  if (!signature || !identity?.signingKey) return false
+
+  const signingKeys = [identity.signingKey]
+  for (const [deviceId, device] of Object.entries(identity.devices || {})) {
+    const endorsed = await verifySignature(
+      deviceEndorsementPayload(accountId, deviceId, device),
+      device.endorsement,
+      identity.signingKey,
+    ).catch(() => false)
+    if (endorsed) signingKeys.push(device.signingKey)
+  }
+  for (const signingKey of signingKeys) {
+    if (await verifySignature(payload, signature, signingKey).catch(() => false)) return true
+  }
+  return false
+}
+
+const IDENTITY_KEYS = ["publicKey", "signingKey", "agreementKey", "kemKey"] as const
+
+// Whether a join replaces or drops keys the identity already published; adding ones it lacked is not a change
+const changesIdentityKeys = (identity: Identity | undefined, user: User) =>
+  !!identity?.publicKey && !!user.publicKey && IDENTITY_KEYS.some((key) => identity[key] && user[key] !== identity[key])
+
+// Whether a replica other than this one may make the change; checked against the state the operation applies to
+async function isAuthorized(op: SyncOperation, data: AppData): Promise<boolean> {
+  switch (op.kind) {
+    case "user-joined": {
+      if (!changesIdentityKeys(data.identities[op.user.id], op.user)) return true
+      const change = op.user.keyChange
+      if (!change) return false
+      const endorsed = await isSignedByAccount(
+        successorPayload(op.user.id, change.successor),
+        change.endorsement,
+        op.user.id,
+        data,
+      )
+      const payload = identityKeysPayload(op.user.id, op.user)
+      return endorsed && (await verifySignature(payload, change.signature, change.successor).catch(() => false))
+    }
+    case "account-replaced":
+      return isSignedByAccount(accountReplacedPayload(op.previousId, op.account), op.signature, op.previousId, data)
+    case "account-password-upgraded":
+    case "account-duress-password-set":
+    case "account-auto-lock-changed":
+    case "account-pin-set":
+    case "account-two-factor-changed":
+      return isSignedByAccount(accountOperationPayload(op), op.signature, op.accountId, data)
+    default:
+      return true
+  }
+}
+
+// Sent sealed to a newly linked device so it can sign in as the same account
+interface DeviceBundle {
+  version: 2
+  account: Account
+  keys: string // RoomKeyring wrapped for the keys the new device made, see wrapKeyringFor
+}
+
+// Contents of a backup file, sealed by lib/account-backup. Bump version when this shape changes
+interface AccountBackup {
+  version: 2
+  account: Account
+  keys: RoomKeyring // Identity keys can't leave their device, so a restored account makes new ones
+  operations: LoggedOperation<SyncOperation>[] // The account's rooms, their members and message history
+  plaintexts: { [messageId: string]: string } // Sender-key messages, whose message keys no longer exist
+  successor?: SuccessorKey // Missing from backups made before key changes had to be authorized
+}
+
+type LegacyAccountBackup = Omit<AccountBackup, "version" | "keys"> & { version: 1; keys: LegacyDeviceKeys }
+
+interface StoredLog {
+  format: "nofeds-oplog"
+  version: number
+  log: LoggedOperation<SyncOperation>[]
+}
+
+// Stored or unsealed JSON as the log or a snapshot from before it; anything else reads as empty
+function storedData(value: unknown): StoredLog | AppData | null {
+  const stored = value as Partial<StoredLog & AppData> | null
+  if (stored?.format === "nofeds-oplog" && Array.isArray(stored.log)) return stored as StoredLog
+  if (Array.isArray(stored?.users)) return stored as AppData
+  return null
+}
+
+const MINUTE = 60 * 1000
+const MESSAGE_TTL_OPTIONS = [
+  { label: "5 minutes", short: "5m", value: 5 * MINUTE },
+  { label: "1 hour", short: "1h", value: 60 * MINUTE },
+  { label: "1 day", short: "1d", value: 24 * 60 * MINUTE },
+  { label: "7 days", short: "7d", value: 7 * 24 * 60 * MINUTE },
+]
+const MESSAGE_TTL_SWEEP_INTERVAL = 10 * 1000
+const TRUST_OPTIONS: { label: string; value: TrustState }[] = [
+  { label: "Unverified", value: "unverified" },
+  { label: "Verified", value: "verified" },
+  { label: "Blocked", value: "blocked" },
+]
+const PADDING_OPTIONS: { label: string; short: string; description: string; value: PaddingScheme }[] = [
+  { label: "Size buckets", short: "Buckets", description: "Strongest hiding, up to twice the size", value: "bucket" },
+  { label: "Padmé", short: "Padmé", description: "Hides most of the length, at most 12% larger", value: "padme" },
+  { label: "None", short: "None", description: "Exact length is visible", value: "none" },
+]
+const PANIC_SHORTCUT_KEY = "x"
+const PANIC_SHORTCUT_LABEL = "Ctrl+Shift+X"
+const AUTO_LOCK_OPTIONS = [
+  { label: "1 minute", value: MINUTE },
+  { label: "5 minutes", value: 5 * MINUTE },
+  { label: "15 minutes", value: 15 * MINUTE },
+  { label: "1 hour", value: 60 * MINUTE },
+]
+const AUTO_LOCK_CHECK_INTERVAL = 5 * 1000
+// Other tabs only need to hear about activity often enough to keep their own timers from firing
+const SESSION_ACTIVITY_REPORT_INTERVAL = 10 * 1000
+const SESSION_ACTIVITY_EVENTS = ["pointerdown", "pointermove", "keydown", "wheel", "touchstart"] as const
+const MAX_PIN_ATTEMPTS = 5
+
+const emptyAppData = (): AppData => ({
+  users: [],
+  rooms: [],
+  messages: {},
+  accounts: [],
+  identities: {},
+  senderKeyDeliveries: [],
+  attachments: {},
+})
+
+// Rooms from before sealed metadata kept these fields on the room itself
+const legacyRoomMetadata = (room: Room): RoomMetadata | undefined =>
+  room.name !== undefined || room.description !== undefined || room.createdBy !== undefined
+    ? { name: room.name ?? "", description: room.description, createdBy: room.createdBy ?? "" }
+    : undefined
+
+// Null for anything that isn't a sealed body, such as the placeholder for a message we couldn't decrypt
+const parseSealedBody = (plaintext: string): SealedMessageBody | null => {
+  try {
+    const body = JSON.parse(plaintext)
+    if (typeof body?.senderId !== "string" || typeof body.sender !== "string") return null
+    return {
+      senderId: body.senderId,
+      sender: body.sender,
+      signature: String(body.signature ?? ""),
+      text: String(body.text ?? ""),
+      attachments: Array.isArray(body.attachments) ? body.attachments : [],
+    }
+  } catch {
+    return null
+  }
+}
+
+const parseMessageBody = (message: ChatMessage, plaintext: string): MessageBody => {
+  if (!message.attachmentIds?.length) return { text: plaintext, attachments: [] }
+  try {
+    const body = JSON.parse(plaintext)
+    return { text: String(body.text ?? ""), attachments: Array.isArray(body.attachments) ? body.attachments : [] }
+  } catch {
+    // Placeholder text for a message we couldn't decrypt
+    return { text: plaintext, attachments: [] }
+  }
+}
+
+// Everything a sealed message's signature covers; the envelope already binds the routing ids
+const sealedSignaturePayload = (
+  roomId: string,
+  message: Pick<ChatMessage, "id" | "timestamp">,
+  body: Omit<SealedMessageBody, "signature">,
+) =>
+  JSON.stringify([
+    3,
+    roomId,
+    message.id,
+    body.senderId,
+    body.sender,
+    new Date(message.timestamp).toISOString(),
+    body.text,
+    body.attachments,
+  ])
+
+// Everything a legacy signature covers, so a message can't be moved to another room or re-attributed
+// What a device signs to ask for a room key under its slot
+const keyRequestPayload = (roomId: string, slot: string, publicKey: string) =>
+  JSON.stringify(["room-key-request", roomId, slot, publicKey])
+
+const messageSignaturePayload = (roomId: string, message: ChatMessage) =>
+  JSON.stringify([
+    message.senderKey ? 2 : 1,
+    roomId,
+    message.id,
+    message.senderId,
+    message.sender,
+    new Date(message.timestamp).toISOString(),
+    message.content,
+    ...(message.senderKey ? [message.senderKey.distributionId, message.senderKey.iteration] : []),
+    ...(message.attachmentIds ? [message.attachmentIds] : []),
+  ])
+
+// Operations travel as JSON, so dates arrive as strings
+const reviveUser = (user: User): User => ({
+  ...user,
+  joinedAt: new Date(user.joinedAt),
+  lastSeen: user.lastSeen ? new Date(user.lastSeen) : undefined,
+})
+
+const reviveMessage = (message: ChatMessage): ChatMessage => ({ ...message, timestamp: new Date(message.timestamp) })
+
+function applyOperation(data: AppData, op: SyncOperation): AppData {
+  const updateRoom = (roomId: string, update: (room: Room) => Room) => ({
+    ...data,
+    rooms: data.rooms.map((room) => (room.id === roomId ? update(room) : room)),
+  })
+
+  switch (op.kind) {
+    case "user-joined": {
+      // A nickname can only be online once; the latest join wins. Linked devices join without keys, and the
+      // account keeps the ones its first device published
+      // Replicas only merge joins that change published keys with a keyChange, see isAuthorized
+      const { keyChange, ...user } = op.user
+      const previous = data.identities[user.id]
+      const keys = user.publicKey ? user : previous
+      const published = {
+        publicKey: keys?.publicKey,
+        signingKey: keys?.signingKey,
+        agreementKey: keys?.agreementKey,
+        kemKey: keys?.kemKey,
+      }
+      return {
+        ...data,
+        users: [
+          ...data.users.filter((u) => u.nickname !== user.nickname && u.id !== user.id),
+          { ...reviveUser(user), ...published },
+        ],
+        identities: {
+          ...data.identities,
+          [user.id]: { nickname: user.nickname, ...published, devices: previous?.devices },
+        },
+      }
+    }
+    case "device-linked": {
+      const identity = data.identities[op.userId]
+      if (!identity) return data
+      const devices = { ...identity.devices, [op.deviceId]: op.device }
+      return { ...data, identities: { ...data.identities, [op.userId]: { ...identity, devices } } }
+    }
+    case "user-left":
+      return { ...data, users: data.users.filter((u) => u.id !== op.userId) }
+    case "status-changed":
+      return {
+        ...data,
+        users: data.users.map((u) =>
+          u.id === op.userId
+            ? { ...u, status: op.status ?? u.status, statusMessage: op.statusMessage ?? u.statusMessage }
+            : u,
+        ),
+      }
+    case "room-created":
+      if (data.rooms.some((room) => room.id === op.room.id)) return data
+      return { ...data, rooms: [...data.rooms, op.room] }
+    case "room-key-requested":
+      return updateRoom(op.roomId, (room) => ({
+        ...room,
+        keyRequests: { ...room.keyRequests, [op.userId]: { publicKey: op.publicKey, signature: op.signature } },
+      }))
+    case "room-keys-wrapped":
+      return updateRoom(op.roomId, (room) => {
+        const keyRequests = { ...room.keyRequests }
+        Object.keys(op.wrappedKeys).forEach((userId) => delete keyRequests[userId])
+        return { ...room, wrappedKeys: { ...room.wrappedKeys, ...op.wrappedKeys }, keyRequests }
+      })
+    case "room-password-upgraded":
+      return updateRoom(op.roomId, ({ password, ...room }) => ({ ...room, passwordVerifier: op.passwordVerifier }))
+    case "room-member-added":
+      return updateRoom(op.roomId, (room) => ({
+        ...room,
+        members: room.members?.includes(op.userId) ? room.members : [...(room.members || []), op.userId],
+        memberProofs: op.proof ? { ...room.memberProofs, [op.userId]: op.proof } : room.memberProofs,
+      }))
+    case "room-member-removed":
+      return updateRoom(op.roomId, (room) => {
+        if (!room.members?.includes(op.userId)) return room
+        const keyRequests = { ...room.keyRequests }
+        delete keyRequests[op.userId]
+        const memberProofs = { ...room.memberProofs }
+        delete memberProofs[op.userId]
+        return {
+          ...room,
+          members: room.members.filter((id) => id !== op.userId),
+          keyRequests,
+          memberProofs,
+          // Password rooms too: the new key is random and only wrapped, so it doesn't depend on the password
+          rotationPending: true,
+        }
+      })
+    case "room-message-ttl-changed":
+      return updateRoom(op.roomId, (room) => ({ ...room, messageTtl: op.messageTtl }))
+    case "room-padding-changed":
+      return updateRoom(op.roomId, (room) => ({ ...room, padding: op.padding }))
+    case "room-key-rotated":
+      return updateRoom(op.roomId, (room) => {
+        // Two members may rotate at once; the first in log order wins
+        const epoch = room.keyEpoch ?? 0
+        if (op.keyEpoch !== epoch + 1) return room
+        return {
+          ...room,
+          keyEpoch: op.keyEpoch,
+          wrappedKeys: op.wrappedKeys,
+          previousWrappedKeys: { ...room.previousWrappedKeys, [epoch]: room.wrappedKeys || {} },
+          rotationPending: false,
+          ...(op.sealedMeta ? { sealedMeta: op.sealedMeta, metaEpoch: op.keyEpoch } : {}),
+        }
+      })
+    case "sender-key-distributed": {
+      const next = updateRoom(op.roomId, (room) => {
+        const recipients = room.senderKeys?.[op.distributionId] || []
+        return { ...room, senderKeys: { ...room.senderKeys, [op.distributionId]: [...recipients, op.recipientId] } }
+      })
+      if (!op.wrappedKey) return next
+      const { kind, ...delivery } = op
+      return { ...next, senderKeyDeliveries: [...next.senderKeyDeliveries, { ...delivery, wrappedKey: op.wrappedKey }] }
+    }
+    case "message-sent": {
+      const roomMessages = data.messages[op.roomId] || []
+      if (roomMessages.some((m) => m.id === op.message.id)) return data
+      return { ...data, messages: { ...data.messages, [op.roomId]: [...roomMessages, reviveMessage(op.message)] } }
+    }
+    case "attachment-uploaded":
+      return {
+        ...data,
+        attachments: { ...data.attachments, [op.attachmentId]: { roomId: op.roomId, chunks: op.chunks } },
+      }
+    case "account-created":
+      // Two tabs may sign up the same nickname concurrently; the first in log order keeps it
+      if (data.accounts.some((acc) => acc.nickname === op.account.nickname)) return data
+      return { ...data, accounts: [...data.accounts, op.account] }
+    case "account-replaced": {
+      // Wins in either log order: it takes the nickname over from the replaced account if that came first, and
+      // the replaced account's account-created finds the nickname taken if it comes later
+      const accounts = data.accounts.filter((acc) => acc.id !== op.previousId)
+      if (accounts.some((acc) => acc.nickname === op.account.nickname)) return data
+      return { ...data, accounts: [...accounts, op.account] }
+    }
+    case "account-password-upgraded":
+      return {
+        ...data,
+        accounts: data.accounts.map((acc) => {
+          if (acc.id !== op.accountId) return acc
+          const { password, ...account } = acc
+          return { ...account, passwordHash: op.passwordHash }
+        }),
+      }
+    case "account-duress-password-set":
+      return {
+        ...data,
+        accounts: data.accounts.map((acc) => (acc.id === op.accountId ? { ...acc, duressHash: op.duressHash } : acc)),
+      }
+    case "account-auto-lock-changed":
+      return {
+        ...data,
+        accounts: data.accounts.map((acc) =>
+          acc.id === op.accountId ? { ...acc, autoLockAfter: op.autoLockAfter } : acc,
+        ),
+      }
+    case "account-pin-set":
+      return {
+        ...data,
+        accounts: data.accounts.map((acc) => (acc.id === op.accountId ? { ...acc, pinHash: op.pinHash } : acc)),
+      }
+    case "account-two-factor-changed":
+      return {
+        ...data,
+        accounts: data.accounts.map((acc) => (acc.id === op.accountId ? { ...acc, twoFactor: op.twoFactor } : acc)),
+      }
+    default:
+      return data
+  }
 }
 
-interface User {
-  id: string
-  nickname: string
-  status: "online" | "away" | "busy"
-  joinedAt: Date
-  avatar?: string
-  statusMessage?: string
-  lastSeen?: Date
-  email?: string
-  hasAccount: boolean
+// Converts a pre-operation-log AppData snapshot into operations that rebuild it
+function snapshotToOperations(data: AppData): SyncOperation[] {
+  return [
+    ...(data.accounts || []).map((account): SyncOperation => ({ kind: "account-created", account })),
+    ...(data.users || []).map((user): SyncOperation => ({ kind: "user-joined", user })),
+    ...(data.rooms || []).map((room): SyncOperation => ({ kind: "room-created", room })),
+    ...Object.entries(data.messages || {}).flatMap(([roomId, messages]) =>
+      messages.map((message): SyncOperation => ({ kind: "message-sent", roomId, message })),
+    ),
+  ]
 }
 
-interface Account {
-  id: string
-  nickname: string
-  password: string // In real app, this would be hashed
-  createdAt: Date
-  avatar?: string
-  isTemporary?: boolean // Added flag for temporary accounts
+// The password only changes on rehash, which keeps the password itself, so the sealed settings stay readable
+async function sealTwoFactor(state: TwoFactorState, password: string): Promise<SealedVault> {
+  const kdf = createVaultKdfParams()
+  return sealVault(state, await deriveVaultKey(password, kdf), kdf)
 }
 
-interface Room {
-  id: string
-  name: string
-  userCount: number
-  hasPassword: boolean
-  password?: string
-  description?: string
-  createdBy: string
+async function openTwoFactor(sealed: SealedVault, password: string): Promise<TwoFactorState> {
+  return openVault<TwoFactorState>(sealed, await deriveVaultKey(password, sealed.kdf))
 }
 
-interface AppData {
-  users: User[]
-  rooms: Room[]
-  messages: { [roomId: string]: ChatMessage[] }
-  accounts: Account[]
+// What goes in an account's backup: the account, the rooms it belongs to and the people and messages in them
+function backupOperationFilter(data: AppData, accountId: string): (op: SyncOperation) => boolean {
+  const rooms = data.rooms.filter((room) => room.members?.includes(accountId) || room.wrappedKeys?.[accountId])
+  const roomIds = new Set(rooms.map((room) => room.id))
+  const userIds = new Set([
+    accountId,
+    ...rooms.flatMap((room) => room.members || []),
+    // Sealed messages don't name their sender, but everyone who ever sent in the room handed their own slot a
+    // sender key
+    ...rooms.flatMap((room) => Object.values(room.senderKeys || {}).flatMap((slots) => slots.map(slotOwner))),
+    ...rooms.flatMap((room) => (data.messages[room.id] || []).flatMap((message) => message.senderId || [])),
+  ])
+
+  return (op) => {
+    switch (op.kind) {
+      case "account-created":
+      case "account-replaced":
+        return op.account.id === accountId
+      case "account-password-upgraded":
+      case "account-duress-password-set":
+      case "account-auto-lock-changed":
+      case "account-pin-set":
+      case "account-two-factor-changed":
+        return op.accountId === accountId
+      case "user-joined":
+        return userIds.has(op.user.id)
+      case "user-left":
+      case "device-linked":
+        return userIds.has(op.userId)
+      case "status-changed":
+        return false
+      case "room-created":
+        return roomIds.has(op.room.id)
+      default:
+        return roomIds.has(op.roomId)
+    }
+  }
 }
 
 export default function ChatApp() {
@@ -247,15 +2353,30 @@ export default function ChatApp() {
   const [nickname, setNickname] = useState("")
   const [currentUser, setCurrentUser] = useState("")
   const [currentUserId, setCurrentUserId] = useState("")
+  const [currentDeviceId, setCurrentDeviceId] = useState<string | null>(null) // Set on linked devices, see deviceSlot
   const [isJoined, setIsJoined] = useState(false)
   const [onlineUsers, setOnlineUsers] = useState<User[]>([])
   const [chatRooms, setChatRooms] = useState<Room[]>([])
   const [selectedRoom, setSelectedRoom] = useState<string | null>(null)
   const [messages, setMessages] = useState<ChatMessage[]>([])
   const [newMessage, setNewMessage] = useState("")
+  const [pendingFiles, setPendingFiles] = useState<File[]>([])
+  const [attachmentError, setAttachmentError] = useState("")
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false)
+  const [imageViewer, setImageViewer] = useState<{ images: { url: string; name: string }[]; index: number } | null>(
+    null,
+  )
   const [currentUserStatus, setCurrentUserStatus] = useState<"online" | "away" | "busy">("online")
   const [currentUserStatusMessage, setCurrentUserStatusMessage] = useState("Just joined!")
   const [editStatusMessage, setEditStatusMessage] = useState("")
+  const [duressPassword, setDuressPassword] = useState("")
+  const [duressError, setDuressError] = useState("")
+  const [isSessionLocked, setIsSessionLocked] = useState(false)
+  const [unlockSecret, setUnlockSecret] = useState("")
+  const [unlockWithPassword, setUnlockWithPassword] = useState(false)
+  const [unlockError, setUnlockError] = useState("")
+  const [newPin, setNewPin] = useState("")
+  const [pinError, setPinError] = useState("")
   const [showUserSettingsDialog, setShowUserSettingsDialog] = useState(false)
   const [showPasswordDialog, setShowPasswordDialog] = useState(false)
   const [passwordInput, setPasswordInput] = useState("")
@@ -266,7 +2387,8 @@ export default function ChatApp() {
   const [newRoomDescription, setNewRoomDescription] = useState("")
   const [newRoomPassword, setNewRoomPassword] = useState("")
   const [newRoomHasPassword, setNewRoomHasPassword] = useState(false)
-  const [selectedUser, setSelectedUser] = useState<User | null>(null)
+  const [newRoomMessageTtl, setNewRoomMessageTtl] = useState("off")
+  const [newRoomPadding, setNewRoomPadding] = useState<PaddingScheme>(DEFAULT_PADDING)
   const [showUserProfileDialog, setShowUserProfileDialog] = useState(false)
   const [currentAccount, setCurrentAccount] = useState<Account | null>(null)
   const [showSignup, setShowSignup] = useState(false)
@@ -275,35 +2397,185 @@ export default function ChatApp() {
   const [signupPassword, setSignupPassword] = useState("")
   const [loginNickname, setLoginNickname] = useState("")
   const [loginPassword, setLoginPassword] = useState("")
+  const [pendingTwoFactor, setPendingTwoFactor] = useState<{
+    account: Account
+    password: string
+    state: TwoFactorState
+  } | null>(null)
+  const [twoFactorCode, setTwoFactorCode] = useState("")
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false)
+  const [recoveryCodeInput, setRecoveryCodeInput] = useState("")
+  const [twoFactorError, setTwoFactorError] = useState("")
+  // Re-read the shared attempt records every second while a password prompt is showing
+  const [attemptClock, setAttemptClock] = useState(() => Date.now())
+  const [twoFactorSetup, setTwoFactorSetup] = useState<{
+    secret: string
+    qrCode: string
+    recoveryCodes: string[]
+  } | null>(null)
+  const [twoFactorSetupCode, setTwoFactorSetupCode] = useState("")
+  const [twoFactorPassword, setTwoFactorPassword] = useState("")
+  const [twoFactorSetupError, setTwoFactorSetupError] = useState("")
   const [showTempAccount, setShowTempAccount] = useState(false) // Added state for temporary account dialog
   const [tempNickname, setTempNickname] = useState("") // Added state for temporary nickname
   const [isEncryptionReady, setIsEncryptionReady] = useState(false)
   const [messageInput, setMessageInput] = useState("")
   const [userSearch, setUserSearch] = useState("")
   const [selectedUserProfile, setSelectedUserProfile] = useState<User | null>(null)
+  const [roomKeyVersion, setRoomKeyVersion] = useState(0)
+  const [identities, setIdentities] = useState<AppData["identities"]>({})
+  // Linked devices whose endorsement checks out against their account's signing key, keyed by device slot
+  const [linkedDevices, setLinkedDevices] = useState<{ [slot: string]: LinkedDevice }>({})
+  const keySlot = deviceSlot(currentUserId, currentDeviceId) // Where keys for this device are wrapped
+  const [roomMetadata, setRoomMetadata] = useState<{ [roomId: string]: RoomMetadata }>({})
+  const [senderKeyDeliveries, setSenderKeyDeliveries] = useState<SenderKeyDelivery[]>([])
+  const [safetyNumber, setSafetyNumber] = useState<string | null>(null)
+  const [trustLedger, setTrustLedger] = useState<TrustLedger | null>(null) // Null until loaded for this account
+  const [isVaultLocked, setIsVaultLocked] = useState(false)
+  const [isVaultEnabled, setIsVaultEnabled] = useState(false)
+  const [vaultPassphrase, setVaultPassphrase] = useState("")
+  const [vaultError, setVaultError] = useState("")
+  const [showVaultDialog, setShowVaultDialog] = useState(false)
+  const [newVaultPassphrase, setNewVaultPassphrase] = useState("")
+  const [confirmVaultPassphrase, setConfirmVaultPassphrase] = useState("")
+  const [isSyncPassphraseNeeded, setIsSyncPassphraseNeeded] = useState(false)
+  const [syncPassphraseInput, setSyncPassphraseInput] = useState("")
+  const [isJoiningSyncGroup, setIsJoiningSyncGroup] = useState(false)
+  const [showLinkDeviceDialog, setShowLinkDeviceDialog] = useState(false)
+  const [linkSession, setLinkSession] = useState<LinkSession | null>(null)
+  const [linkQrCode, setLinkQrCode] = useState("")
+  const [linkStatus, setLinkStatus] = useState<"waiting" | "linked" | "failed" | "expired">("waiting")
+  const [linkError, setLinkError] = useState("")
+  const [showLinkThisDevice, setShowLinkThisDevice] = useState(false)
+  const [showBackupDialog, setShowBackupDialog] = useState(false)
+  const [backupPassphrase, setBackupPassphrase] = useState("")
+  const [confirmBackupPassphrase, setConfirmBackupPassphrase] = useState("")
+  const [backupError, setBackupError] = useState("")
+  const [isExportingBackup, setIsExportingBackup] = useState(false)
+  const [showRestoreBackup, setShowRestoreBackup] = useState(false)
+  const [restoreFile, setRestoreFile] = useState<File | null>(null)
+  const [restorePassphrase, setRestorePassphrase] = useState("")
+  const [restoreError, setRestoreError] = useState("")
+  const [isRestoringBackup, setIsRestoringBackup] = useState(false)
+  const [linkCodeInput, setLinkCodeInput] = useState("")
+  const [isLinkingDevice, setIsLinkingDevice] = useState(false)
+  const [isScanningLinkCode, setIsScanningLinkCode] = useState(false)
   const messagesEndRef = useRef<HTMLDivElement>(null)
+  const importingSenderKeys = useRef<Set<string>>(new Set())
+  const rotatingRoomKeys = useRef<Set<string>>(new Set())
+  // Room keys being wrapped for a member's key request, by room key and slot, until the wrap is in the log
+  const wrappingRoomKeys = useRef<Set<string>>(new Set())
+  // Sender chains being wrapped for members, by room and distribution id, until their ops are in the log
+  const distributingSenderKeys = useRef<Set<string>>(new Set())
+  const openingRoomMetadata = useRef<Set<string>>(new Set())
+  const resealingRooms = useRef<Set<string>>(new Set())
+  const lastActivity = useRef(Date.now())
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  // Object URLs of decrypted attachments, so re-renders don't decrypt them again
+  const attachmentUrls = useRef<Map<string, string>>(new Map())
+  const scanVideoRef = useRef<HTMLVideoElement>(null)
+  const scanStreamRef = useRef<MediaStream | null>(null)
+
+  // A wipe from this tab or another one leaves nothing to show, so go back to the join screen
+  useEffect(() => {
+    return syncManager.onWipe(() => {
+      encryptionManager.reset()
+      attachmentUrls.current.forEach((url) => URL.revokeObjectURL(url))
+      attachmentUrls.current.clear()
+      setLinkSession(null)
+      setRoomMetadata({})
+      setPendingFiles([])
+      setImageViewer(null)
+      setShowUserSettingsDialog(false)
+      setShowVaultDialog(false)
+      setShowBackupDialog(false)
+      setShowLinkDeviceDialog(false)
+      setTwoFactorSetup(null)
+      setIsVaultEnabled(false)
+      setIsVaultLocked(false)
+      setIsSyncPassphraseNeeded(syncManager.needsSyncPassphrase())
+      setIsSessionLocked(false)
+
+      setIsJoined(false)
+      setCurrentUser("")
+      setCurrentUserId("")
+      setCurrentDeviceId(null)
+      setSelectedRoom(null)
+      setMessages([])
+      setCurrentAccount(null)
+      setNickname("")
+    })
+  }, [syncManager, encryptionManager])
+
+  // Tick the retry countdowns while a password prompt is showing
+  useEffect(() => {
+    if (!showLogin && !showPasswordDialog && !isSessionLocked) return
+
+    setAttemptClock(Date.now())
+    const interval = setInterval(() => setAttemptClock(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [showLogin, showPasswordDialog, isSessionLocked])
+
+  // Panic shortcut, available on every screen
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!e.ctrlKey || !e.shiftKey || e.key.toLowerCase() !== PANIC_SHORTCUT_KEY) return
+      e.preventDefault()
+      handlePanicWipe()
+    }
+
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [])
+
+  // Auto-lock once the account's idle timeout passes; activity in any of its tabs counts, hidden tabs don't
+  useEffect(() => {
+    const accountId = currentAccount?.id
+    const autoLockAfter = currentAccount?.autoLockAfter
+    if (!isJoined || isSessionLocked || !accountId || !autoLockAfter) return
+
+    let lastReported = 0
+    lastActivity.current = Date.now()
+    const handleActivity = () => {
+      if (document.visibilityState !== "visible") return
+      const now = Date.now()
+      lastActivity.current = now
+      if (now - lastReported < SESSION_ACTIVITY_REPORT_INTERVAL) return
+      lastReported = now
+      syncManager.sendSessionEvent({ kind: "activity", accountId, at: now })
+    }
+    const interval = setInterval(() => {
+      if (Date.now() - lastActivity.current < autoLockAfter) return
+      lockSession()
+      syncManager.sendSessionEvent({ kind: "lock", accountId })
+    }, AUTO_LOCK_CHECK_INTERVAL)
+
+    SESSION_ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, handleActivity, { passive: true }))
+    return () => {
+      clearInterval(interval)
+      SESSION_ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, handleActivity))
+    }
+  }, [isJoined, isSessionLocked, currentAccount?.id, currentAccount?.autoLockAfter, syncManager])
+
+  // A lock in any tab of this account locks every tab; unlocking only ever unlocks the tab it happens in
+  useEffect(() => {
+    const accountId = currentAccount?.id
+    if (!isJoined || !accountId) return
+
+    return syncManager.onSessionEvent((event) => {
+      if (event.accountId !== accountId) return
+      if (event.kind === "activity") lastActivity.current = Math.max(lastActivity.current, event.at)
+      else lockSession()
+    })
+  }, [isJoined, currentAccount?.id, syncManager])
 
   useEffect(() => {
     const handleBeforeUnload = () => {
       try {
         console.log("[v0] Handling beforeunload event")
         if (currentAccount?.isTemporary) {
-          // Remove temporary account from storage
-          const savedData = syncManager.loadData()
-          if (savedData?.accounts) {
-            const updatedAccounts = savedData.accounts.filter((acc: Account) => acc.id !== currentAccount.id)
-            const updatedData = { ...savedData, accounts: updatedAccounts }
-            syncManager.saveData(updatedData)
-          }
-
-          // Remove temporary user from online users
-          const updatedUsers = onlineUsers.filter((user) => user.id !== currentUserId)
-          const currentData = syncManager.loadData() || { users: [], rooms: [], messages: {}, accounts: [] }
-          const appData = {
-            ...currentData,
-            users: updatedUsers,
-          }
-          syncManager.saveData(appData)
+          // Temporary accounts are never stored, so only the online user has to go
+          syncManager.append({ kind: "user-left", userId: currentUserId })
         }
       } catch (error) {
         console.error("[v0] Error in beforeunload handler:", error)
@@ -312,74 +2584,57 @@ export default function ChatApp() {
 
     window.addEventListener("beforeunload", handleBeforeUnload)
     return () => window.removeEventListener("beforeunload", handleBeforeUnload)
-  }, [currentAccount, currentUserId, onlineUsers, syncManager])
+  }, [currentAccount, currentUserId, syncManager])
 
   useEffect(() => {
     try {
-      console.log("[v0] Loading initial data")
-      // Load existing data
-      const savedData = syncManager.loadData()
-      if (savedData) {
-        setOnlineUsers(savedData.users || [])
-        setChatRooms(savedData.rooms || [])
-        if (savedData.messages && selectedRoom) {
-          setMessages(savedData.messages[selectedRoom] || [])
-        }
+      const applyData = (data: AppData) => {
+        setOnlineUsers(data.users)
+        setChatRooms(data.rooms)
+        setIdentities(data.identities)
+        setSenderKeyDeliveries(data.senderKeyDeliveries)
+        setMessages(selectedRoom ? data.messages[selectedRoom] || [] : [])
         if (nickname) {
-          setCurrentAccount(savedData.accounts?.find((acc: Account) => acc.nickname === nickname) || null)
+          // Temporary accounts are never stored, so keep ours if it isn't in the log
+          setCurrentAccount(
+            (prev) => data.accounts.find((acc) => acc.nickname === nickname) || (prev?.isTemporary ? prev : null),
+          )
         }
       }
 
-      // Listen for updates from other tabs
-      syncManager.onUpdate((data: AppData) => {
+      console.log("[v0] Loading initial data")
+      const savedData = syncManager.loadData()
+      if (savedData) applyData(savedData)
+
+      // Listen for operations from this tab, other tabs and peers
+      const unsubscribe = syncManager.onUpdate((data: AppData) => {
         try {
-          console.log("[v0] Received data update from other tab")
-          setOnlineUsers(data.users || [])
-          setChatRooms(data.rooms || [])
-          if (data.messages && selectedRoom) {
-            setMessages(data.messages[selectedRoom] || [])
-          }
-          if (nickname) {
-            setCurrentAccount(data.accounts?.find((acc: Account) => acc.nickname === nickname) || null)
-          }
+          applyData(data)
         } catch (error) {
           console.error("[v0] Error processing data update:", error)
         }
       })
 
-      return () => {
-        syncManager.close()
-      }
+      // This effect re-runs on room and nickname changes, so only drop the listener and keep the transport open
+      return unsubscribe
     } catch (error) {
       console.error("[v0] Error in main useEffect:", error)
     }
   }, [syncManager, selectedRoom, nickname])
 
-  const syncData = () => {
-    const currentData = syncManager.loadData() || { users: [], rooms: [], messages: {}, accounts: [] }
-    const appData: AppData = {
-      users: onlineUsers,
-      rooms: chatRooms,
-      messages: {
-        ...currentData.messages,
-        ...(selectedRoom ? { [selectedRoom]: messages } : {}),
-      },
-      accounts: currentData.accounts,
-    }
-    syncManager.saveData(appData)
-  }
-
   useEffect(() => {
-    if (isJoined) {
-      syncData()
-    }
-  }, [onlineUsers, chatRooms, messages, isJoined])
+    setIsVaultLocked(syncManager.isVaultLocked())
+    setIsVaultEnabled(syncManager.isVaultEnabled())
+    syncManager.loadSyncKey().then((joined) => setIsSyncPassphraseNeeded(!joined))
+  }, [syncManager])
 
   useEffect(() => {
     const initEncryption = async () => {
       try {
         console.log("[v0] Initializing encryption")
         await encryptionManager.generateKeyPair()
+        await encryptionManager.generateSigningKeyPair()
+        await encryptionManager.generateAgreementKeyPair()
         setIsEncryptionReady(true)
         console.log("[v0] Encryption initialized successfully")
       } catch (error) {
@@ -395,27 +2650,493 @@ export default function ChatApp() {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" })
   }, [messages])
 
+  // Expired messages leave the log, and their plaintexts leave this device's key store
+  const purgeExpiredMessages = async () => {
+    try {
+      await encryptionManager.forgetPlaintexts(syncManager.purgeExpired())
+    } catch (error) {
+      console.error("[v0] Failed to forget expired messages:", error)
+    }
+  }
+
+  // Delete expired messages from every room with a timer
   useEffect(() => {
-    if (!selectedRoom || !currentUser) return
+    purgeExpiredMessages()
+    const interval = setInterval(purgeExpiredMessages, MESSAGE_TTL_SWEEP_INTERVAL)
+    return () => clearInterval(interval)
+  }, [syncManager, encryptionManager])
 
-    const savedData = syncManager.loadData()
-    const existingMessages = savedData?.messages?.[selectedRoom] || []
-
-    if (existingMessages.length === 0) {
-      // Add system message when user joins room for the first time
-      const systemMessage = {
-        id: Date.now().toString(),
-        content: `${currentUser} joined the room`,
-        sender: "System",
-        senderId: "system",
-        timestamp: new Date(),
-        type: "system" as const,
+  // This device's record of contacts' keys, only readable while the session is unlocked
+  useEffect(() => {
+    setTrustLedger(null)
+    if (!currentUserId || isSessionLocked) return
+
+    let cancelled = false
+    loadTrustLedger<LedgerEntry>(currentUserId)
+      .then((ledger) => !cancelled && setTrustLedger(ledger))
+      .catch((error) => console.error("[v0] Failed to load trust ledger:", error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [currentUserId, isSessionLocked])
+
+  // Remember the first key seen for every nickname and record any later one as a key change
+  useEffect(() => {
+    updateTrustLedger((ledger) =>
+      Object.entries(identities).reduce(
+        (next, [userId, identity]) =>
+          identity.publicKey && identity.nickname !== currentUser
+            ? observeIdentity(next, { nickname: identity.nickname, userId, publicKey: identity.publicKey })
+            : next,
+        ledger,
+      ),
+    )
+  }, [identities, trustLedger, currentUser, currentUserId])
+
+  // Only devices the account's own signing key vouched for get keys wrapped for them or count for its messages
+  useEffect(() => {
+    let cancelled = false
+    const verifyLinkedDevices = async () => {
+      const verified: { [slot: string]: LinkedDevice } = {}
+      for (const [userId, identity] of Object.entries(identities)) {
+        for (const [deviceId, device] of Object.entries(identity.devices || {})) {
+          if (!identity.signingKey) continue
+          try {
+            const payload = deviceEndorsementPayload(userId, deviceId, device)
+            if (await encryptionManager.verify(payload, device.endorsement, identity.signingKey)) {
+              verified[deviceSlot(userId, deviceId)] = device
+            }
+          } catch (error) {
+            console.error("[v0] Failed to verify linked device:", error)
+          }
+        }
       }
-      setMessages([systemMessage])
-    } else {
-      setMessages(existingMessages)
+      if (!cancelled) setLinkedDevices(verified)
+    }
+    verifyLinkedDevices()
+
+    return () => {
+      cancelled = true
+    }
+  }, [identities, encryptionManager])
+
+  // Derive the safety number between us and the user whose profile is open
+  useEffect(() => {
+    setSafetyNumber(null)
+    if (!showUserProfileDialog || !selectedUserProfile?.publicKey || selectedUserProfile.id === currentUserId) return
+
+    let cancelled = false
+    const remote = { publicKey: selectedUserProfile.publicKey, identifier: selectedUserProfile.nickname }
+    // The other side sees the key our account published, which on a linked device isn't this device's own
+    const published = currentDeviceId ? identities[currentUserId]?.publicKey : undefined
+    const ownKey = published ? Promise.resolve(published) : encryptionManager.exportPublicKey()
+    ownKey
+      .then((publicKey) => computeSafetyNumber({ publicKey, identifier: currentUser }, remote))
+      .then((result) => !cancelled && setSafetyNumber(result))
+      .catch((error) => console.error("[v0] Failed to compute safety number:", error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [
+    showUserProfileDialog,
+    selectedUserProfile,
+    currentUser,
+    currentUserId,
+    currentDeviceId,
+    identities,
+    encryptionManager,
+  ])
+
+  // Answer the first pairing request while the link dialog is open; the code is spent either way
+  useEffect(() => {
+    if (!linkSession || !currentAccount) return
+    const account = currentAccount
+
+    const unsubscribe = syncManager.onDeviceLink(async (message) => {
+      if (message.step !== "request" || linkSession.used) return
+      try {
+        const response = await acceptLinkRequest(linkSession, message, (device) => linkDevice(account, device))
+        syncManager.sendDeviceLink(response)
+        setLinkStatus("linked")
+      } catch (error) {
+        console.error("[v0] Device link failed:", error)
+        setLinkStatus("failed")
+        setLinkError(error instanceof Error ? error.message : "Pairing failed")
+      } finally {
+        setLinkSession(null)
+      }
+    })
+    const expiry = setTimeout(() => {
+      setLinkStatus("expired")
+      setLinkSession(null)
+    }, linkSession.expiresAt - Date.now())
+
+    return () => {
+      unsubscribe()
+      clearTimeout(expiry)
+    }
+  }, [linkSession, currentAccount, syncManager])
+
+  // Read the pairing QR code from the camera where the browser can decode barcodes
+  useEffect(() => {
+    const video = scanVideoRef.current
+    const stream = scanStreamRef.current
+    if (!isScanningLinkCode || !video || !stream || !("BarcodeDetector" in window)) return
+
+    video.srcObject = stream
+    video.play().catch((error) => console.error("[v0] Failed to start camera preview:", error))
+    const detector = new (window as BarcodeDetectorWindow).BarcodeDetector({ formats: ["qr_code"] })
+    const interval = setInterval(async () => {
+      try {
+        const codes = await detector.detect(video)
+        const code = codes.map((c) => parseLinkCode(c.rawValue)).find(Boolean)
+        if (!code) return
+        stopScanningLinkCode()
+        setLinkCodeInput(code)
+        handleLinkThisDevice(code)
+      } catch (error) {
+        console.error("[v0] Failed to read QR code:", error)
+      }
+    }, 500)
+
+    return () => clearInterval(interval)
+  }, [isScanningLinkCode])
+
+  // Wrap room keys we hold for members who requested them
+  useEffect(() => {
+    if (!currentUserId || isSessionLocked) return
+
+    const distributeRoomKeys = async () => {
+      for (const room of chatRooms) {
+        // The password-derived key is never handed out; knowing the password is the only way in. Keys rotated in
+        // after that go to members who proved they know it
+        const requests = Object.entries(room.keyRequests || {})
+        const epoch = room.keyEpoch ?? 0
+        if (requests.length === 0 || (room.keySalt && epoch === 0)) continue
+        if (!encryptionManager.hasRoomKey(room.id, epoch)) continue
+
+        const wrappedKeys: { [slot: string]: string } = {}
+        const pending = requests
+          .map(([slot, request]) => ({ slot, request, wrapId: `${roomKeyId(room.id, epoch)}|${slot}` }))
+          .filter(({ wrapId }) => !wrappingRoomKeys.current.has(wrapId))
+        pending.forEach(({ wrapId }) => wrappingRoomKeys.current.add(wrapId))
+        try {
+          for (const { slot, request } of pending) {
+            // Only current members, and only for the key the slot published, so nobody else can ask in its name.
+            // Linked devices only get keys once their endorsement checks out
+            const memberId = slotOwner(slot)
+            if (!room.members?.includes(memberId)) continue
+            const contact = contactKeysForSlot(slot, request.publicKey)
+            const signingKey = slot === memberId ? identities[memberId]?.signingKey : linkedDevices[slot]?.signingKey
+            if (!contact || !signingKey || !request.signature) continue
+            const payload = keyRequestPayload(room.id, slot, request.publicKey)
+            const signed = await encryptionManager.verify(payload, request.signature, signingKey).catch(() => false)
+            if (!signed) continue
+            const proof = room.memberProofs?.[memberId]
+            if (room.keySalt && !(await encryptionManager.checkMembershipProof(room.id, memberId, proof))) continue
+            try {
+              wrappedKeys[slot] = await encryptionManager.wrapRoomKey(room.id, contact, epoch)
+            } catch (error) {
+              console.error("[v0] Failed to wrap room key for member:", error)
+            }
+          }
+          if (Object.keys(wrappedKeys).length > 0) {
+            syncManager.append({ kind: "room-keys-wrapped", roomId: room.id, wrappedKeys })
+          }
+        } finally {
+          pending.forEach(({ wrapId }) => wrappingRoomKeys.current.delete(wrapId))
+        }
+      }
+    }
+    distributeRoomKeys()
+  }, [chatRooms, identities, linkedDevices, currentUserId, isSessionLocked, encryptionManager, syncManager])
+
+  // Replace the room key after a member left, wrapping the new one for everyone still in the room
+  useEffect(() => {
+    if (!currentUserId || isSessionLocked) return
+
+    chatRooms
+      .filter((room) => room.rotationPending && room.members?.includes(currentUserId))
+      .forEach((room) => {
+        const epoch = room.keyEpoch ?? 0
+        const rotationId = roomKeyId(room.id, epoch + 1)
+        if (!encryptionManager.hasRoomKey(room.id, epoch) || rotatingRoomKeys.current.has(rotationId)) return
+        // Proofs are checked with the password-derived key, so leave the rotation to a member who has it
+        if (room.keySalt && !encryptionManager.hasRoomKey(room.id, 0)) return
+        rotatingRoomKeys.current.add(rotationId)
+
+        // In password rooms, only members who proved they know the password get the new key
+        const provenMembers = async () => {
+          if (!room.keySalt) return room.members || []
+          const proven = await Promise.all(
+            (room.members || []).map((id) =>
+              encryptionManager.checkMembershipProof(room.id, id, room.memberProofs?.[id]),
+            ),
+          )
+          return (room.members || []).filter((id, i) => proven[i] || id === currentUserId)
+        }
+
+        Promise.all([provenMembers(), readRoomMetadata(room)])
+          .then(([members, metadata]) =>
+            encryptionManager.generateWrappedRoomKey(room.id, epoch + 1, recipientsOf(members), metadata),
+          )
+          .then(({ wrappedKeys, sealedMeta }) =>
+            syncManager.append({
+              kind: "room-key-rotated",
+              roomId: room.id,
+              keyEpoch: epoch + 1,
+              wrappedKeys,
+              sealedMeta,
+            }),
+          )
+          .catch((error) => console.error("[v0] Failed to rotate room key:", error))
+      })
+  }, [chatRooms, identities, linkedDevices, currentUserId, isSessionLocked, encryptionManager, syncManager])
+
+  // Open the names of rooms we can read, unwrapping keys that were wrapped for us along the way
+  useEffect(() => {
+    if (!currentUserId || isSessionLocked) {
+      openingRoomMetadata.current.clear()
+      return
+    }
+
+    chatRooms
+      .filter((room) => room.sealedMeta && !roomMetadata[room.id])
+      .forEach((room) => {
+        const epoch = room.metaEpoch ?? 0
+        const wrappedKeys = epoch === (room.keyEpoch ?? 0) ? room.wrappedKeys : room.previousWrappedKeys?.[epoch]
+        const wrappedKey = wrappedKeys?.[keySlot]
+        const hasKey = encryptionManager.hasRoomKey(room.id, epoch)
+        const attemptId = `${roomKeyId(room.id, epoch)}:${hasKey ? "key" : "wrapped"}`
+        if ((!hasKey && !wrappedKey) || openingRoomMetadata.current.has(attemptId)) return
+        openingRoomMetadata.current.add(attemptId)
+
+        const unwrap = hasKey ? Promise.resolve() : encryptionManager.unwrapRoomKey(room.id, wrappedKey!, epoch)
+        unwrap
+          .then(() => encryptionManager.openRoomMetadata(room.id, room.sealedMeta!, epoch))
+          .then((metadata) => setRoomMetadata((prev) => ({ ...prev, [room.id]: metadata })))
+          .catch((error) => console.error("[v0] Failed to open room metadata:", error))
+      })
+  }, [chatRooms, roomMetadata, roomKeyVersion, currentUserId, keySlot, isSessionLocked, encryptionManager])
+
+  // Rooms from before sealed metadata still carry their name in the clear; the first member able to
+  // seal it rewrites the room in every replica's log
+  useEffect(() => {
+    if (!currentUserId || isSessionLocked) return
+
+    chatRooms
+      .filter((room) => legacyRoomMetadata(room))
+      .forEach((room) => {
+        const epoch = room.keyEpoch ?? 0
+        const isDirect = room.kind === "direct"
+        if (!room.members?.includes(currentUserId) || resealingRooms.current.has(room.id)) return
+        if (!isDirect && !encryptionManager.hasRoomKey(room.id, epoch)) return
+        resealingRooms.current.add(room.id)
+
+        // A direct room's title comes from its members, so its legacy name is simply dropped
+        const sealed = isDirect
+          ? Promise.resolve({})
+          : encryptionManager
+              .sealRoomMetadata(room.id, legacyRoomMetadata(room)!, epoch)
+              .then((sealedMeta) => ({ sealedMeta, metaEpoch: epoch }))
+        sealed
+          .then((meta) =>
+            syncManager.redact(
+              (op) => op.kind === "room-created" && op.room.id === room.id,
+              (op) => {
+                if (op.kind !== "room-created") return op
+                const { name, description, createdBy, ...rest } = op.room
+                return { ...op, room: { ...rest, ...meta } }
+              },
+            ),
+          )
+          .catch((error) => console.error("[v0] Failed to seal room metadata:", error))
+      })
+  }, [chatRooms, roomKeyVersion, currentUserId, isSessionLocked, encryptionManager, syncManager])
+
+  // Import sender keys wrapped for us, then strip them from the log so a later compromise can't replay them
+  useEffect(() => {
+    if (!currentUserId || isSessionLocked) return
+
+    senderKeyDeliveries
+      .filter((delivery) => delivery.recipientId === keySlot)
+      .forEach((delivery) => {
+        const deliveryId = `${delivery.roomId}|${delivery.distributionId}`
+        if (importingSenderKeys.current.has(deliveryId)) return
+        importingSenderKeys.current.add(deliveryId)
+
+        encryptionManager
+          .importSenderKey(delivery.roomId, delivery.distributionId, delivery.wrappedKey, delivery.senderId)
+          .then(() => {
+            syncManager.redact(
+              (op) =>
+                op.kind === "sender-key-distributed" &&
+                op.recipientId === keySlot &&
+                op.roomId === delivery.roomId &&
+                op.distributionId === delivery.distributionId,
+              (op) => (op.kind === "sender-key-distributed" ? { ...op, wrappedKey: undefined } : op),
+            )
+            setRoomKeyVersion((v) => v + 1)
+          })
+          .catch((error) => console.error("[v0] Failed to import sender key:", error))
+      })
+  }, [senderKeyDeliveries, currentUserId, keySlot, isSessionLocked, encryptionManager, syncManager])
+
+  // Hand our current sender key to members who joined after we started the chain
+  useEffect(() => {
+    if (!currentUserId || isSessionLocked) return
+
+    chatRooms
+      .filter((room) => room.kind !== "direct" && room.members?.includes(currentUserId))
+      .forEach((room) => {
+        const senderKey = encryptionManager.getOwnSenderKey(room.id, keySlot)
+        if (!senderKey) return
+        const distributionId = `${room.id}|${senderKey.distributionId}`
+        if (distributingSenderKeys.current.has(distributionId)) return
+
+        const delivered = room.senderKeys?.[senderKey.distributionId] || []
+        // Every device of every member, this one included, see Room.senderKeys
+        const slots = Object.keys(recipientsOf(room.members || []))
+
+        // Someone who left still holds this chain, so start a new one they never see
+        if (delivered.some((slot) => !room.members?.includes(slotOwner(slot)))) {
+          distributingSenderKeys.current.add(distributionId)
+          encryptionManager
+            .startSenderKey(room.id, keySlot)
+            .then((replacement) => distributeSenderKey(room, replacement, slots))
+            .catch((error) => console.error("[v0] Failed to replace sender key:", error))
+            .finally(() => distributingSenderKeys.current.delete(distributionId))
+          return
+        }
+
+        const missing = slots.filter((slot) => !delivered.includes(slot))
+        if (missing.length === 0) return
+        distributingSenderKeys.current.add(distributionId)
+        distributeSenderKey(room, senderKey, missing)
+          .catch((error) => console.error("[v0] Failed to distribute sender key:", error))
+          .finally(() => distributingSenderKeys.current.delete(distributionId))
+      })
+  }, [chatRooms, identities, linkedDevices, currentUserId, keySlot, isSessionLocked, encryptionManager])
+
+  // Unwrap the selected room's keys, current and past epochs, once a member has wrapped them for us
+  useEffect(() => {
+    if (!selectedRoom || !currentUserId || isSessionLocked) return
+
+    const room = chatRooms.find((r) => r.id === selectedRoom)
+    // Direct rooms created with hybrid wrapped keys unwrap like any other room below
+    const derivedDirectRoom = room?.kind === "direct" && !room.members?.some((id) => room.wrappedKeys?.[id])
+    if (derivedDirectRoom && keySlot === currentUserId) {
+      if (encryptionManager.hasRoomKey(selectedRoom)) return
+
+      // Older direct rooms need nothing from the other side but their published agreement key
+      const otherId = room.members?.find((id) => id !== currentUserId)
+      const agreementKey = otherId ? identities[otherId]?.agreementKey : undefined
+      if (!agreementKey) return
+
+      encryptionManager
+        .deriveDirectRoomKey(selectedRoom, agreementKey)
+        .then(() => setRoomKeyVersion((v) => v + 1))
+        .catch((error) => console.error("[v0] Failed to derive direct message key:", error))
+      return
+    }
+    // The other side derives with the agreement key of our first device, so a linked device has the key wrapped
+    if (derivedDirectRoom && !room.wrappedKeys?.[keySlot] && !encryptionManager.hasRoomKey(selectedRoom)) {
+      requestRoomKey(selectedRoom)
+      return
+    }
+
+    if (!room) return
+    const epoch = room.keyEpoch ?? 0
+
+    Object.entries(room.previousWrappedKeys || {}).forEach(([previousEpoch, wrappedKeys]) => {
+      const wrappedKey = wrappedKeys[keySlot]
+      if (!wrappedKey || encryptionManager.hasRoomKey(selectedRoom, Number(previousEpoch))) return
+
+      encryptionManager
+        .unwrapRoomKey(selectedRoom, wrappedKey, Number(previousEpoch))
+        .then(() => setRoomKeyVersion((v) => v + 1))
+        .catch((error) => console.error("[v0] Failed to unwrap earlier room key:", error))
+    })
+
+    const wrappedKey = room.wrappedKeys?.[keySlot]
+    if (!wrappedKey || encryptionManager.hasRoomKey(selectedRoom, epoch)) return
+
+    encryptionManager
+      .unwrapRoomKey(selectedRoom, wrappedKey, epoch)
+      .then(() => setRoomKeyVersion((v) => v + 1))
+      .catch((error) => {
+        // Wrapped for an identity key we no longer hold, so ask for it again
+        console.error("[v0] Failed to unwrap room key:", error)
+        requestRoomKey(selectedRoom)
+      })
+  }, [chatRooms, identities, selectedRoom, currentUserId, keySlot, isSessionLocked, encryptionManager])
+
+  const selectedRoomEpoch = chatRooms.find((r) => r.id === selectedRoom)?.keyEpoch ?? 0
+  const hasSelectedRoomKey = selectedRoom ? encryptionManager.hasRoomKey(selectedRoom, selectedRoomEpoch) : false
+
+  const loginWait = showLogin
+    ? retryDelay(loginAttemptKey(pendingTwoFactor?.account.nickname ?? loginNickname), attemptClock)
+    : 0
+  const roomPasswordWait =
+    showPasswordDialog && pendingRoomId ? retryDelay(roomAttemptKey(pendingRoomId), attemptClock) : 0
+
+  // Direct rooms stay out of the room list and only show up for their two members
+  const groupRooms = chatRooms.filter((room) => room.kind !== "direct")
+  const directRooms = chatRooms.filter((room) => room.kind === "direct" && room.members?.includes(currentUserId))
+
+  const getRoomMetadata = (room: Room): RoomMetadata | undefined => legacyRoomMetadata(room) ?? roomMetadata[room.id]
+
+  // Rotation reseals the metadata under the new key, so it has to be opened fresh rather than taken from state
+  const readRoomMetadata = async (room: Room): Promise<RoomMetadata | undefined> => {
+    const legacy = legacyRoomMetadata(room)
+    const epoch = room.metaEpoch ?? 0
+    if (legacy || !room.sealedMeta || !encryptionManager.hasRoomKey(room.id, epoch)) return legacy
+    try {
+      return await encryptionManager.openRoomMetadata(room.id, room.sealedMeta, epoch)
+    } catch (error) {
+      console.error("[v0] Failed to open room metadata:", error)
+      return undefined
     }
-  }, [selectedRoom, currentUser, syncManager])
+  }
+
+  const selectedRoomData = chatRooms.find((r) => r.id === selectedRoom)
+  const selectedRoomMetadata = selectedRoomData && getRoomMetadata(selectedRoomData)
+  const selectedRoomPadding = selectedRoomData?.padding ?? DEFAULT_PADDING
+
+  const updateTrustLedger = (update: (ledger: TrustLedger) => TrustLedger) => {
+    if (!trustLedger || !currentUserId) return
+    const next = update(trustLedger)
+    if (next === trustLedger) return
+
+    setTrustLedger(next)
+    saveTrustLedger(currentUserId, next).catch((error) => console.error("[v0] Failed to save trust ledger:", error))
+  }
+
+  const getTrust = (nickname: string): TrustState => trustLedger?.[nickname]?.trust ?? "unverified"
+  const selectedContact = selectedUserProfile ? trustLedger?.[selectedUserProfile.nickname] : undefined
+
+  // Key changes of anyone who is or was in the selected room, shown among its messages on this device only
+  const selectedRoomKeyChanges: { nickname: string; change: KeyChange }[] = Object.values(trustLedger || {}).flatMap(
+    (entry) =>
+      entry.changes
+        .filter((change) =>
+          selectedRoomData?.members?.some((id) => id === change.userId || id === change.previousUserId),
+        )
+        .map((change) => ({ nickname: entry.nickname, change })),
+  )
+  const timeline = [
+    ...messages.map((message) => ({ at: new Date(message.timestamp).getTime(), message })),
+    ...selectedRoomKeyChanges.map((keyChange) => ({ at: keyChange.change.seenAt, keyChange })),
+  ].sort((a, b) => a.at - b.at)
+
+  const getRoomTitle = (room: Room | undefined) => {
+    if (!room) return "#Unknown Room"
+    if (room.kind !== "direct") return `#${getRoomMetadata(room)?.name ?? "sealed-room"}`
+    const otherId = room.members?.find((id) => id !== currentUserId)
+    return `@${(otherId && identities[otherId]?.nickname) || "unknown"}`
+  }
 
   const filteredUsers = onlineUsers.filter((user) => user.nickname.toLowerCase().includes(userSearch.toLowerCase()))
 
@@ -461,16 +3182,18 @@ export default function ChatApp() {
     return date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
   }
 
-  const handleJoin = () => {
+  const handleJoin = async () => {
     if (nickname.trim()) {
-      const userId = Date.now().toString()
+      const userId = window.crypto.randomUUID()
+      const publicKey = await encryptionManager.exportPublicKey()
+      const signingKey = await encryptionManager.exportSigningKey()
+      const agreementKey = await encryptionManager.exportAgreementKey()
+      const kemKey = encryptionManager.exportKemKey()
       setCurrentUser(nickname.trim())
       setCurrentUserId(userId)
+      setCurrentDeviceId(null)
       setIsJoined(true)
 
-      const savedData = syncManager.loadData()
-      const existingUsers = savedData?.users || []
-
       const newUser: User = {
         id: userId,
         nickname: nickname.trim(),
@@ -479,136 +3202,688 @@ export default function ChatApp() {
         statusMessage: "Just joined!",
         avatar: "/welcome-new-user.png",
         hasAccount: false,
+        publicKey,
+        signingKey,
+        agreementKey,
+        kemKey,
       }
 
-      // Remove any existing user with same nickname and add new user
-      const updatedUsers = existingUsers.filter((u: User) => u.nickname !== nickname.trim())
-      setOnlineUsers([...updatedUsers, newUser])
+      // Replaces any existing user with the same nickname
+      syncManager.append({ kind: "user-joined", user: newUser })
     }
   }
 
   const handleStatusChange = (newStatus: "online" | "away" | "busy") => {
     setCurrentUserStatus(newStatus)
-    setOnlineUsers((prev) => prev.map((user) => (user.id === currentUserId ? { ...user, status: newStatus } : user)))
+    syncManager.append({ kind: "status-changed", userId: currentUserId, status: newStatus })
+  }
+
+  // Hide everything decrypted and drop the keys from memory; they are reloaded from the key store on unlock
+  const lockSession = () => {
+    encryptionManager.reset()
+    attachmentUrls.current.forEach((url) => URL.revokeObjectURL(url))
+    attachmentUrls.current.clear()
+    setLinkSession(null)
+    setRoomMetadata({})
+    setImageViewer(null)
+    setShowUserSettingsDialog(false)
+    setShowBackupDialog(false)
+    setShowLinkDeviceDialog(false)
+    setTwoFactorSetup(null)
+    // Password-derived room keys can't be reloaded, so leave those rooms until the password is entered again
+    setSelectedRoom((roomId) =>
+      roomId && syncManager.loadData()?.rooms.find((room) => room.id === roomId)?.hasPassword ? null : roomId,
+    )
+    setUnlockSecret("")
+    setUnlockError("")
+    setUnlockWithPassword(false)
+    setIsSessionLocked(true)
+  }
+
+  const handleUnlockSession = async () => {
+    if (!currentAccount || !unlockSecret) return
+
+    // Counted like login attempts, in the shared records, so reloading the page doesn't reset them
+    const pinKey = pinAttemptKey(currentAccount.id)
+    const passwordKey = loginAttemptKey(currentAccount.nickname)
+    const usePin = !unlockWithPassword && !!currentAccount.pinHash && failureCount(pinKey) < MAX_PIN_ATTEMPTS
+    const attemptKey = usePin ? pinKey : passwordKey
+    if (beginAttempt(attemptKey) > 0) {
+      setAttemptClock(Date.now())
+      return
+    }
+
+    const secret = unlockSecret
+    setUnlockSecret("")
+    const valid = usePin
+      ? await verifyPassword(secret, currentAccount.pinHash!)
+      : currentAccount.passwordHash
+        ? await verifyPassword(secret, currentAccount.passwordHash)
+        : currentAccount.password === secret
+
+    if (!valid) {
+      if (!usePin && currentAccount.duressHash && (await verifyPassword(secret, currentAccount.duressHash))) {
+        // Clears the attempt like a real unlock would
+        recordSuccess(attemptKey)
+        setIsSessionLocked(false)
+        await handleDuressLogin(currentAccount, secret)
+        return
+      }
+      setAttemptClock(Date.now())
+      if (usePin && failureCount(pinKey) >= MAX_PIN_ATTEMPTS) {
+        setUnlockError("Too many wrong PINs. Enter your account password.")
+        return
+      }
+      setUnlockError(usePin ? "Incorrect PIN." : "Incorrect password.")
+      return
+    }
+
+    try {
+      await encryptionManager.loadIdentity(currentAccount.id)
+    } catch (error) {
+      console.error("[v0] Failed to load identity key:", error)
+    }
+
+    // The password vouches for the PIN again, while a right PIN leaves earlier password failures standing
+    recordSuccess(pinKey)
+    if (!usePin) recordSuccess(passwordKey)
+    lastActivity.current = Date.now()
+    syncManager.sendSessionEvent({ kind: "activity", accountId: currentAccount.id, at: lastActivity.current })
+    setUnlockError("")
+    setIsSessionLocked(false)
+  }
+
+  // Other replicas only accept account changes signed by one of the account's devices, see isAuthorized
+  const signAccountOperation = async (op: AccountOperation): Promise<AccountOperation> => ({
+    ...op,
+    signature: await encryptionManager.sign(accountOperationPayload(op)),
+  })
+
+  const handleAutoLockChange = async (value: string) => {
+    if (!currentAccount) return
+    syncManager.append(
+      await signAccountOperation({
+        kind: "account-auto-lock-changed",
+        accountId: currentAccount.id,
+        autoLockAfter: value === "off" ? undefined : Number(value),
+      }),
+    )
+  }
+
+  const handleSetPin = async () => {
+    if (!currentAccount || currentAccount.isTemporary) return
+    if (!/^\d{4,8}$/.test(newPin)) {
+      setPinError("Use 4 to 8 digits.")
+      return
+    }
+
+    const pinHash = await hashPassword(newPin)
+    syncManager.append(await signAccountOperation({ kind: "account-pin-set", accountId: currentAccount.id, pinHash }))
+    setNewPin("")
+    setPinError("")
+  }
+
+  const handleRemovePin = async () => {
+    if (!currentAccount) return
+    syncManager.append(await signAccountOperation({ kind: "account-pin-set", accountId: currentAccount.id }))
+  }
+
+  const handleStartTwoFactorSetup = async () => {
+    if (!currentAccount || currentAccount.isTemporary) return
+
+    try {
+      const secret = createTotpSecret()
+      const qrCode = await QRCode.toDataURL(totpUri(secret, currentAccount.nickname), { margin: 1, width: 192 })
+      setTwoFactorSetup({ secret, qrCode, recoveryCodes: createRecoveryCodes() })
+      setShowUserSettingsDialog(false)
+      setTwoFactorSetupCode("")
+      setTwoFactorPassword("")
+      setTwoFactorSetupError("")
+    } catch (error) {
+      console.error("[v0] Failed to start two-factor setup:", error)
+    }
+  }
+
+  // The password seals the secret, and a first code proves the authenticator app has it
+  const handleEnableTwoFactor = async () => {
+    if (!currentAccount || !twoFactorSetup) return
+
+    if (!currentAccount.passwordHash || !(await verifyPassword(twoFactorPassword, currentAccount.passwordHash))) {
+      setTwoFactorSetupError("Incorrect password.")
+      return
+    }
+    const counter = await verifyTotp(twoFactorSetup.secret, twoFactorSetupCode)
+    if (counter === null) {
+      setTwoFactorSetupError("That code doesn't match. Check your device's clock and try the next one.")
+      setTwoFactorSetupCode("")
+      return
+    }
+
+    try {
+      const state: TwoFactorState = {
+        secret: twoFactorSetup.secret,
+        recoveryCodes: await Promise.all(twoFactorSetup.recoveryCodes.map(hashRecoveryCode)),
+        lastCounter: counter,
+      }
+      syncManager.append(
+        await signAccountOperation({
+          kind: "account-two-factor-changed",
+          accountId: currentAccount.id,
+          twoFactor: await sealTwoFactor(state, twoFactorPassword),
+        }),
+      )
+      setTwoFactorSetup(null)
+    } catch (error) {
+      console.error("[v0] Failed to enable two-factor:", error)
+      setTwoFactorSetupError("Couldn't enable two-factor authentication.")
+    } finally {
+      setTwoFactorPassword("")
+    }
+  }
+
+  const handleDisableTwoFactor = async () => {
+    if (!currentAccount?.passwordHash) return
+
+    if (!(await verifyPassword(twoFactorPassword, currentAccount.passwordHash))) {
+      setTwoFactorSetupError("Incorrect password.")
+      return
+    }
+    syncManager.append(await signAccountOperation({ kind: "account-two-factor-changed", accountId: currentAccount.id }))
+    setTwoFactorPassword("")
+    setTwoFactorSetupError("")
+  }
+
+  // Destroys every key and all stored data on this device without asking; other tabs follow through onWipe
+  const handlePanicWipe = async () => {
+    syncManager.wipe()
+    clearAttempts()
+    try {
+      await deleteKeyDatabase()
+    } catch (error) {
+      console.error("[v0] Failed to delete key database:", error)
+    }
+  }
+
+  const handleSetDuressPassword = async () => {
+    if (!currentAccount || currentAccount.isTemporary || !duressPassword) return
+
+    if (currentAccount.passwordHash && (await verifyPassword(duressPassword, currentAccount.passwordHash))) {
+      setDuressError("The duress password must differ from your login password.")
+      return
+    }
+
+    syncManager.append(
+      await signAccountOperation({
+        kind: "account-duress-password-set",
+        accountId: currentAccount.id,
+        duressHash: await hashPassword(duressPassword),
+      }),
+    )
+    setDuressPassword("")
+    setDuressError("")
+  }
+
+  const handleRemoveDuressPassword = async () => {
+    if (!currentAccount) return
+    const change = await signAccountOperation({ kind: "account-duress-password-set", accountId: currentAccount.id })
+    syncManager.append(change)
   }
 
   const handleStatusMessageUpdate = () => {
     setCurrentUserStatusMessage(editStatusMessage)
-    setOnlineUsers((prev) =>
-      prev.map((user) => (user.id === currentUserId ? { ...user, statusMessage: editStatusMessage } : user)),
-    )
+    syncManager.append({ kind: "status-changed", userId: currentUserId, statusMessage: editStatusMessage })
     setShowUserSettingsDialog(false)
   }
 
-  const handleRoomJoin = (roomId: string) => {
-    const room = chatRooms.find((r) => r.id === roomId)
+  const handleRoomJoin = (roomId: string) => {
+    const room = chatRooms.find((r) => r.id === roomId)
+
+    if (room?.hasPassword) {
+      setPendingRoomId(roomId)
+      setShowPasswordDialog(true)
+      setPasswordError("")
+      setPasswordInput("")
+    } else {
+      joinRoom(roomId)
+    }
+  }
+
+  const handlePasswordSubmit = async () => {
+    if (!pendingRoomId) return
+
+    const roomId = pendingRoomId
+    const room = chatRooms.find((r) => r.id === roomId)
+    if (!room) return
+
+    const attemptKey = roomAttemptKey(roomId)
+    if (beginAttempt(attemptKey) > 0) return
+
+    const passwordMatches = room.passwordVerifier
+      ? await verifyPassword(passwordInput, room.passwordVerifier)
+      : !!room.password && room.password === passwordInput
+
+    if (!passwordMatches) {
+      setAttemptClock(Date.now())
+      setPasswordError("Incorrect password. Please try again.")
+      return
+    }
+    recordSuccess(attemptKey)
+
+    try {
+      if (room.keySalt) {
+        await encryptionManager.deriveRoomKey(roomId, passwordInput, room.keySalt)
+        setRoomKeyVersion((v) => v + 1)
+      } else if (room.password) {
+        // Legacy room: replace the stored plaintext with a verifier, keeping its shared room key
+        const passwordVerifier = await hashPassword(passwordInput)
+        syncManager.append({ kind: "room-password-upgraded", roomId, passwordVerifier })
+      }
+    } catch (error) {
+      console.error("Failed to derive room key:", error)
+    }
+
+    setShowPasswordDialog(false)
+    setPendingRoomId(null)
+    setPasswordInput("")
+    setPasswordError("")
+    joinRoom(roomId)
+  }
+
+  // A member device's keys by slot, see deviceSlot; publicKey pins the key a key request was made with
+  const contactKeysForSlot = (slot: string, publicKey?: string): ContactKeys | undefined => {
+    if (slot === slotOwner(slot)) return contactKeysOf(identities[slot], publicKey)
+    const device = linkedDevices[slot]
+    return device && (!publicKey || device.publicKey === publicKey) ? device : undefined
+  }
+
+  // Every device of these members that keys can be wrapped for, by slot
+  const recipientsOf = (userIds: string[]): { [slot: string]: ContactKeys } => {
+    const recipients: { [slot: string]: ContactKeys } = {}
+    userIds.forEach((userId) => {
+      const contact = contactKeysOf(identities[userId])
+      if (contact) recipients[userId] = contact
+    })
+    Object.entries(linkedDevices).forEach(([slot, device]) => {
+      if (userIds.includes(slotOwner(slot))) recipients[slot] = device
+    })
+    return recipients
+  }
+
+  // Ask any member holding the room key to wrap it for our public key
+  const requestRoomKey = async (roomId: string) => {
+    const publicKey = await encryptionManager.exportPublicKey()
+    const room = syncManager.loadData()?.rooms.find((r) => r.id === roomId)
+    const request = room?.keyRequests?.[keySlot]
+    if (!room || (request?.publicKey === publicKey && request.signature)) return
+
+    const signature = await encryptionManager.sign(keyRequestPayload(roomId, keySlot, publicKey))
+    syncManager.append({ kind: "room-key-requested", roomId, userId: keySlot, publicKey, signature })
+  }
+
+  // Wrap our sender key for each recipient device that has a published identity key. In slot order, so where our
+  // own delivery falls doesn't give us away
+  const distributeSenderKey = async (room: Room, senderKey: SenderKeyDistribution, recipientIds: string[]) => {
+    const ops: SyncOperation[] = []
+    for (const recipientId of [...recipientIds].sort()) {
+      const contact = contactKeysForSlot(recipientId)
+      if (!contact) continue
+      // Only to members who showed they know the password; the member list itself is open to anyone
+      const memberId = slotOwner(recipientId)
+      const proof = room.memberProofs?.[memberId]
+      if (room.keySalt && !(await encryptionManager.checkMembershipProof(room.id, memberId, proof))) continue
 
-    if (room?.hasPassword) {
-      setPendingRoomId(roomId)
-      setShowPasswordDialog(true)
-      setPasswordError("")
-      setPasswordInput("")
-    } else {
-      joinRoom(roomId)
+      try {
+        const wrappedKey = await encryptionManager.wrapSenderKey(room.id, keySlot, senderKey, contact)
+        ops.push({
+          kind: "sender-key-distributed",
+          roomId: room.id,
+          recipientId,
+          distributionId: senderKey.distributionId,
+          wrappedKey,
+        })
+      } catch (error) {
+        console.error("[v0] Failed to wrap sender key for member:", error)
+      }
     }
+    if (ops.length > 0) syncManager.append(...ops)
   }
 
-  const handlePasswordSubmit = () => {
-    if (!pendingRoomId) return
-
-    const room = chatRooms.find((r) => r.id === pendingRoomId)
+  // Notices name people and rooms, so they're sealed under the room key whenever we hold it
+  const systemMessage = async (
+    roomId: string,
+    text: string,
+    epoch = 0,
+    padding: PaddingScheme = DEFAULT_PADDING,
+  ): Promise<ChatMessage> => {
+    const message: ChatMessage = {
+      id: window.crypto.randomUUID(),
+      content: text,
+      sender: "System",
+      senderId: "system",
+      timestamp: new Date(),
+      type: "system",
+    }
+    if (!encryptionManager.hasRoomKey(roomId, epoch)) return message
 
-    if (room?.password === passwordInput) {
-      setShowPasswordDialog(false)
-      setPendingRoomId(null)
-      setPasswordInput("")
-      setPasswordError("")
-      joinRoom(pendingRoomId)
-    } else {
-      setPasswordError("Incorrect password. Please try again.")
+    try {
+      const content = await encryptionManager.encryptMessage(text, roomId, message.id, epoch, padding)
+      return { ...message, content, encrypted: true, keyEpoch: epoch }
+    } catch (error) {
+      console.error("[v0] Failed to seal system message:", error)
+      return message
     }
   }
 
   const joinRoom = async (roomId: string) => {
+    const alreadyInRoom = selectedRoom === roomId
     setSelectedRoom(roomId)
-    const room = chatRooms.find((r) => r.id === roomId)
+    const room = syncManager.loadData()?.rooms.find((r) => r.id === roomId)
+    if (room?.kind === "direct") return
+
+    // Members of password rooms from before proofs add theirs the next time they enter the password
+    const needsProof = !!room?.keySalt && !room.memberProofs?.[currentUserId] && encryptionManager.hasRoomKey(roomId)
+    if (room && (!room.members?.includes(currentUserId) || needsProof)) {
+      try {
+        const proof = needsProof ? await encryptionManager.sealMembershipProof(roomId, currentUserId) : undefined
+        syncManager.append({ kind: "room-member-added", roomId, userId: currentUserId, proof })
+      } catch (error) {
+        console.error("[v0] Failed to prove room password:", error)
+      }
+    }
 
     try {
-      await encryptionManager.generateRoomKey(roomId)
+      if (!encryptionManager.hasRoomKey(roomId, room?.keyEpoch ?? 0) && !room?.wrappedKeys?.[keySlot]) {
+        await requestRoomKey(roomId)
+      }
     } catch (error) {
-      console.error("Failed to generate room key:", error)
+      console.error("Failed to request room key:", error)
     }
 
-    // Add initial messages for the room
-    const initialMessages = [
-      {
-        id: "system-1",
-        content: `Welcome to ${room?.name}! ${room?.description || ""}`,
-        sender: "System",
-        senderId: "system",
-        timestamp: new Date(Date.now() - 1000 * 60 * 30),
-        type: "system",
-      },
-      {
-        id: "join-1",
-        content: `${currentUser} joined the room`,
-        sender: "System",
-        senderId: "system",
-        timestamp: new Date(),
-        type: "join",
-      },
-    ]
+    if (alreadyInRoom) return
 
-    setMessages(initialMessages)
+    syncManager.append({
+      kind: "message-sent",
+      roomId,
+      message: await systemMessage(roomId, `${currentUser} joined the room`, room?.keyEpoch ?? 0, room?.padding),
+    })
   }
 
-  const handleCreateRoom = () => {
+  const handleCreateRoom = async () => {
     if (!newRoomName.trim()) return
 
-    const newRoom = {
-      id: Date.now().toString(),
+    const roomId = window.crypto.randomUUID()
+    const wrappedKeys: { [userId: string]: string } = {}
+    let passwordVerifier: string | undefined
+    let keySalt: string | undefined
+    let memberProofs: Room["memberProofs"]
+
+    try {
+      if (newRoomHasPassword) {
+        keySalt = btoa(String.fromCharCode(...window.crypto.getRandomValues(new Uint8Array(16))))
+        passwordVerifier = await hashPassword(newRoomPassword)
+        await encryptionManager.deriveRoomKey(roomId, newRoomPassword, keySalt)
+        memberProofs = { [currentUserId]: await encryptionManager.sealMembershipProof(roomId, currentUserId) }
+      } else {
+        await encryptionManager.generateRoomKey(roomId)
+        // For each of our devices, so the others can read the room too
+        const contacts = { ...recipientsOf([currentUserId]), [keySlot]: await encryptionManager.exportContactKeys() }
+        for (const [slot, contact] of Object.entries(contacts)) {
+          wrappedKeys[slot] = await encryptionManager.wrapRoomKey(roomId, contact)
+        }
+      }
+    } catch (error) {
+      console.error("Failed to generate room key:", error)
+    }
+
+    const metadata: RoomMetadata = {
       name: newRoomName.trim(),
-      userCount: 1,
-      hasPassword: newRoomHasPassword,
-      password: newRoomHasPassword ? newRoomPassword : undefined,
       description: newRoomDescription.trim() || undefined,
       createdBy: currentUser,
     }
+    let sealedMeta: string
+    try {
+      sealedMeta = await encryptionManager.sealRoomMetadata(roomId, metadata)
+    } catch (error) {
+      // Without a key there's nothing to seal the name under, and it must not go out in the clear
+      console.error("Failed to seal room metadata:", error)
+      return
+    }
+
+    const newRoom: Room = {
+      id: roomId,
+      sealedMeta,
+      metaEpoch: 0,
+      userCount: 1,
+      hasPassword: newRoomHasPassword,
+      passwordVerifier,
+      keySalt,
+      members: [currentUserId],
+      memberProofs,
+      wrappedKeys,
+      messageTtl: newRoomMessageTtl === "off" ? undefined : Number(newRoomMessageTtl),
+      padding: newRoomPadding,
+    }
+    setRoomMetadata((prev) => ({ ...prev, [roomId]: metadata }))
 
-    setChatRooms((prev) => [...prev, newRoom])
+    syncManager.append(
+      { kind: "room-created", room: newRoom },
+      {
+        kind: "message-sent",
+        roomId,
+        message: await systemMessage(
+          roomId,
+          `Welcome to ${metadata.name}! ${metadata.description || ""}`,
+          0,
+          newRoom.padding,
+        ),
+      },
+    )
 
     // Reset form
     setNewRoomName("")
     setNewRoomDescription("")
     setNewRoomPassword("")
     setNewRoomHasPassword(false)
+    setNewRoomMessageTtl("off")
+    setNewRoomPadding(DEFAULT_PADDING)
     setShowCreateRoomDialog(false)
 
     // Auto-join the new room
     joinRoom(newRoom.id)
   }
 
+  const addPendingFiles = (files: FileList | File[]) => {
+    const accepted = Array.from(files).filter((file) => file.size <= MAX_ATTACHMENT_SIZE)
+    setAttachmentError(
+      accepted.length < Array.from(files).length
+        ? `Attachments are limited to ${formatFileSize(MAX_ATTACHMENT_SIZE)} each`
+        : "",
+    )
+    setPendingFiles((prev) => [...prev, ...accepted])
+  }
+
+  const handleFilesDropped = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault()
+    setIsDraggingFiles(false)
+    if (!hasSelectedRoomKey || event.dataTransfer.files.length === 0) return
+    addPendingFiles(event.dataTransfer.files)
+  }
+
   const handleSendMessage = async () => {
-    if (!messageInput.trim() || !selectedRoom || !isEncryptionReady) return
+    const hasContent = messageInput.trim() || pendingFiles.length > 0
+    if (!hasContent || !selectedRoom || !isEncryptionReady || !hasSelectedRoomKey) return
 
     try {
-      const encryptedContent = await encryptionManager.encryptMessage(messageInput.trim(), selectedRoom)
+      const room = chatRooms.find((r) => r.id === selectedRoom)
+      const messageId = window.crypto.randomUUID()
+      const keyEpoch = room?.keyEpoch ?? 0
+      let encrypted: Pick<ChatMessage, "content" | "senderKey">
+
+      // One at a time, so only a single file is held in memory while it's encrypted
+      const uploads = []
+      for (const file of pendingFiles) {
+        uploads.push(await encryptAttachment(file))
+      }
 
-      const newMessage = {
-        id: Date.now().toString(),
-        content: encryptedContent,
-        sender: currentUser,
+      // Signed, then sealed: the sender and their signature are only visible to those who can decrypt
+      const timestamp = new Date()
+      const unsigned = {
         senderId: currentUserId,
-        timestamp: new Date(),
-        type: "user" as const,
+        sender: currentUser,
+        text: messageInput.trim(),
+        attachments: uploads.map((upload) => upload.ref),
+      }
+      const signature = await encryptionManager.sign(
+        sealedSignaturePayload(selectedRoom, { id: messageId, timestamp }, unsigned),
+      )
+      const body = JSON.stringify({ ...unsigned, signature } satisfies SealedMessageBody)
+
+      if (room && room.kind !== "direct") {
+        // Group rooms ratchet a per-sender chain; rotate it every so often and hand the new one to every member
+        let senderKey = encryptionManager.getOwnSenderKey(room.id, keySlot)
+        if (!senderKey) {
+          senderKey = await encryptionManager.startSenderKey(room.id, keySlot)
+          const distributionId = `${room.id}|${senderKey.distributionId}`
+          distributingSenderKeys.current.add(distributionId)
+          try {
+            await distributeSenderKey(room, senderKey, Object.keys(recipientsOf(room.members || [])))
+          } finally {
+            distributingSenderKeys.current.delete(distributionId)
+          }
+        }
+        encrypted = await encryptionManager.encryptWithSenderKey(
+          room.id,
+          keySlot,
+          messageId,
+          body,
+          keyEpoch,
+          room.padding,
+        )
+      } else {
+        encrypted = {
+          content: await encryptionManager.encryptMessage(body, selectedRoom, messageId, keyEpoch, room?.padding),
+        }
+      }
+
+      const newMessage: ChatMessage = {
+        id: messageId,
+        ...encrypted,
+        timestamp,
+        type: "user",
         encrypted: true,
+        keyEpoch,
       }
 
-      setMessages((prev) => [...prev, newMessage])
+      syncManager.append(
+        ...uploads.map(
+          (upload): SyncOperation => ({
+            kind: "attachment-uploaded",
+            roomId: selectedRoom,
+            attachmentId: upload.ref.id,
+            uploadedAt: newMessage.timestamp,
+            chunks: upload.chunks,
+          }),
+        ),
+        { kind: "message-sent", roomId: selectedRoom, message: newMessage },
+      )
       setMessageInput("")
+      setPendingFiles([])
+      setAttachmentError("")
     } catch (error) {
       console.error("Failed to encrypt message:", error)
+      setAttachmentError("Couldn't encrypt the attachment. Please try again.")
+    }
+  }
+
+  const handleMessageTtlChange = async (value: string) => {
+    if (!selectedRoom) return
+
+    const roomId = selectedRoom
+    const messageTtl = value === "off" ? undefined : Number(value)
+    const label = MESSAGE_TTL_OPTIONS.find((option) => option.value === messageTtl)?.label
+    const notice = await systemMessage(
+      roomId,
+      label
+        ? `${currentUser} set messages to disappear after ${label}`
+        : `${currentUser} turned off disappearing messages`,
+      selectedRoomEpoch,
+      selectedRoomData?.padding,
+    )
+    syncManager.append(
+      { kind: "room-message-ttl-changed", roomId, messageTtl },
+      { kind: "message-sent", roomId, message: notice },
+    )
+    purgeExpiredMessages()
+  }
+
+  const handlePaddingChange = async (value: string) => {
+    const option = PADDING_OPTIONS.find((candidate) => candidate.value === value)
+    if (!selectedRoom || !option) return
+
+    const roomId = selectedRoom
+    // Announced under the new setting, so the notice itself doesn't stand out
+    const notice = await systemMessage(
+      roomId,
+      `${currentUser} set message padding to ${option.label}`,
+      selectedRoomEpoch,
+      option.value,
+    )
+    syncManager.append(
+      { kind: "room-padding-changed", roomId, padding: option.value },
+      { kind: "message-sent", roomId, message: notice },
+    )
+  }
+
+  // Open (or create) the 1:1 conversation with a user
+  const handleStartDirectMessage = async (user: User) => {
+    if (!user.agreementKey || user.id === currentUserId || getTrust(user.nickname) === "blocked") return
+
+    const members = [currentUserId, user.id].sort()
+    // A random id, since one built from the members would tell anyone which two of them talk
+    const existing = chatRooms.find(
+      (room) => room.kind === "direct" && members.every((id) => room.members?.includes(id)),
+    )
+    const roomId = existing?.id ?? window.crypto.randomUUID()
+    if (!existing) {
+      // When both of us publish ML-KEM keys the room gets a random key wrapped hybrid for each of us; otherwise
+      // both sides derive it from plain ECDH, which a recording could be opened with once P-256 falls
+      let wrappedKeys: { [userId: string]: string } | undefined
+      const theirKeys = contactKeysOf(identities[user.id])
+      if (theirKeys && keyExchangeFor(theirKeys) === "hybrid") {
+        try {
+          const contacts = { ...recipientsOf(members), [keySlot]: await encryptionManager.exportContactKeys() }
+          wrappedKeys = (await encryptionManager.generateWrappedRoomKey(roomId, 0, contacts)).wrappedKeys
+        } catch (error) {
+          console.error("[v0] Failed to wrap direct message key:", error)
+        }
+      }
+
+      syncManager.append({
+        kind: "room-created",
+        room: {
+          id: roomId,
+          userCount: 2,
+          hasPassword: false,
+          kind: "direct",
+          members,
+          wrappedKeys,
+        },
+      })
     }
+
+    setShowUserProfileDialog(false)
+    setSelectedRoom(roomId)
+  }
+
+  const handleSetTrust = (trust: TrustState) => {
+    if (!selectedUserProfile) return
+    updateTrustLedger((ledger) => setTrust(ledger, selectedUserProfile.nickname, trust))
+  }
+
+  // Accepting is what clears the warning, so it also says whether the new safety number was compared
+  const handleAcceptKeyChange = (trust: TrustState) => {
+    if (!selectedUserProfile) return
+    updateTrustLedger((ledger) => acceptKeyChange(ledger, selectedUserProfile.nickname, trust))
   }
 
   const handleUserClick = (user: User) => {
@@ -622,18 +3897,40 @@ export default function ChatApp() {
   }
 
   const handleLogout = () => {
-    setOnlineUsers((prev) => prev.filter((user) => user.id !== currentUserId))
+    // Leaving every room makes the remaining members rotate the keys we held
+    const memberships = chatRooms
+      .filter((room) => room.kind !== "direct" && room.members?.includes(currentUserId))
+      .map((room): SyncOperation => ({ kind: "room-member-removed", roomId: room.id, userId: currentUserId }))
+    syncManager.append(...memberships, { kind: "user-left", userId: currentUserId })
+    encryptionManager.reset()
+    attachmentUrls.current.forEach((url) => URL.revokeObjectURL(url))
+    attachmentUrls.current.clear()
+    setRoomMetadata({})
+    setPendingFiles([])
+    syncManager.lockVault()
+    setIsVaultLocked(syncManager.isVaultLocked())
+    setIsSessionLocked(false)
 
     setIsJoined(false)
     setCurrentUser("")
     setCurrentUserId("")
+    setCurrentDeviceId(null)
     setSelectedRoom(null)
     setMessages([])
     setCurrentAccount(null)
     setNickname("")
   }
 
-  const handleLeaveRoom = () => {
+  const handleLeaveRoom = async () => {
+    const room = chatRooms.find((r) => r.id === selectedRoom)
+    if (room && room.kind !== "direct" && room.members?.includes(currentUserId)) {
+      const notice = await systemMessage(room.id, `${currentUser} left the room`, room.keyEpoch ?? 0, room.padding)
+      syncManager.append(
+        { kind: "room-member-removed", roomId: room.id, userId: currentUserId },
+        { kind: "message-sent", roomId: room.id, message: notice },
+      )
+    }
+
     setSelectedRoom(null)
     setMessages([])
   }
@@ -641,35 +3938,542 @@ export default function ChatApp() {
   const getDisplayContent = async (message: ChatMessage): Promise<string> => {
     if (!message.encrypted || !selectedRoom) return message.content
 
+    if (message.senderKey) {
+      try {
+        const content = await encryptionManager.decryptWithSenderKey(selectedRoom, message)
+        return content ?? "[Encrypted message - waiting for sender key]"
+      } catch (error) {
+        // Message keys are deleted after use, so history from before this session is gone by design
+        console.error("Failed to decrypt message:", error)
+        return "[Encrypted message - key no longer available]"
+      }
+    }
+
+    const epoch = message.keyEpoch ?? 0
+    if (!encryptionManager.hasRoomKey(selectedRoom, epoch)) return "[Encrypted message - waiting for room key]"
+
+    try {
+      return await encryptionManager.decryptMessage(message, selectedRoom)
+    } catch (error) {
+      console.error("Failed to decrypt message:", error)
+      return "[Encrypted message - decryption failed]"
+    }
+  }
+
+  // Check a legacy message's signature against the key the sender id joined with before showing anything
+  const verifyMessage = async (message: ChatMessage): Promise<"verified" | "unverified" | "invalid"> => {
+    if (!selectedRoom || !message.senderId) return "invalid"
+
+    const identity = identities[message.senderId]
+    if (!message.signature || !identity?.signingKey) return "unverified"
+    if (identity.nickname !== message.sender) return "invalid"
+
+    try {
+      const payload = messageSignaturePayload(selectedRoom, message)
+      return (await encryptionManager.verify(payload, message.signature, identity.signingKey)) ? "verified" : "invalid"
+    } catch (error) {
+      console.error("Failed to verify message signature:", error)
+      return "invalid"
+    }
+  }
+
+  // A sealed message names its sender inside; the signature has to match that sender's key, and a
+  // sender-key message has to come from the chain that sender handed out
+  const verifySealedMessage = async (
+    message: ChatMessage,
+    { signature, ...body }: SealedMessageBody,
+  ): Promise<"verified" | "unverified" | "invalid"> => {
+    if (!selectedRoom) return "invalid"
+
+    if (message.senderKey) {
+      const owner = encryptionManager.senderKeyOwner(selectedRoom, message.senderKey.distributionId)
+      if (owner && owner !== body.senderId) return "invalid"
+    }
+
+    const identity = identities[body.senderId]
+    if (!signature || !identity?.signingKey) return "unverified"
+    if (identity.nickname !== body.sender) return "invalid"
+
+    // Signed by the account's first device or one it linked
+    const signingKeys = [
+      identity.signingKey,
+      ...Object.entries(linkedDevices).flatMap(([slot, device]) =>
+        slotOwner(slot) === body.senderId ? [device.signingKey] : [],
+      ),
+    ]
+    try {
+      const payload = sealedSignaturePayload(selectedRoom, message, body)
+      for (const signingKey of signingKeys) {
+        if (await encryptionManager.verify(payload, signature, signingKey)) return "verified"
+      }
+      return "invalid"
+    } catch (error) {
+      console.error("Failed to verify message signature:", error)
+      return "invalid"
+    }
+  }
+
+  const openMessage = async (message: ChatMessage): Promise<OpenedMessage> => {
+    const rejected = "[Message rejected - signature does not match sender]"
+    if (!message.encrypted) {
+      return {
+        sender: message.sender ?? "Unknown",
+        senderId: message.senderId,
+        text: message.content,
+        attachments: [],
+        verification: null,
+      }
+    }
+
+    if (!message.senderId) {
+      const plaintext = await getDisplayContent(message)
+      const body = parseSealedBody(plaintext)
+      // Until it decrypts, a sealed message doesn't say who sent it
+      if (!body) return { sender: "Sealed sender", text: plaintext, attachments: [], verification: null }
+
+      const verification = await verifySealedMessage(message, body)
+      const { sender, senderId } = body
+      if (verification === "invalid") return { sender, senderId, text: rejected, attachments: [], verification }
+      return { sender, senderId, text: body.text, attachments: body.attachments, verification }
+    }
+
+    const sender = message.sender ?? "Unknown"
+    const verification = await verifyMessage(message)
+    if (verification === "invalid") {
+      return { sender, senderId: message.senderId, text: rejected, attachments: [], verification }
+    }
+    const body = parseMessageBody(message, await getDisplayContent(message))
+    return { sender, senderId: message.senderId, ...body, verification }
+  }
+
+  const UserMessage = ({ message }: { message: ChatMessage }) => {
+    const [opened, setOpened] = useState<OpenedMessage | null>(null)
+
+    useEffect(() => {
+      const open = async () => {
+        try {
+          setOpened(await openMessage(message))
+        } catch (error) {
+          console.error("[v0] Failed to decrypt message:", error)
+          setOpened({
+            sender: message.sender ?? "Sealed sender",
+            text: "[Encrypted message - decryption failed]",
+            attachments: [],
+            verification: null,
+          })
+        }
+      }
+      open()
+    }, [message, selectedRoom, roomKeyVersion, identities])
+
+    const sender = opened?.sender ?? message.sender ?? ""
+    const verification = opened?.verification ?? null
+    const contact = sender && sender !== currentUser ? trustLedger?.[sender] : undefined
+    const isBlocked = contact?.trust === "blocked"
+
+    return (
+      <>
+        <Avatar className="h-8 w-8 mt-1">
+          <AvatarImage src={sender === currentUser ? "/welcome-new-user.png" : "/placeholder.svg"} alt={sender} />
+          <AvatarFallback className="text-xs">{sender.slice(0, 2).toUpperCase()}</AvatarFallback>
+        </Avatar>
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2 mb-1">
+            <span className="font-medium text-sm text-white">{sender}</span>
+            {sender === currentUser && (
+              <Badge variant="outline" className="text-xs px-1 py-0">
+                You
+              </Badge>
+            )}
+            {contact?.trust === "verified" && <ShieldCheck className="h-3 w-3 text-emerald-400" />}
+            {contact?.pendingChange && <AlertTriangle className="h-3 w-3 text-red-400" />}
+            {message.encrypted && <Shield className="h-3 w-3 text-emerald-400" />}
+            <span className="text-xs text-slate-400">{formatMessageTime(message.timestamp)}</span>
+          </div>
+          {isBlocked ? (
+            <p className="text-sm text-slate-500 italic">Message from a blocked contact</p>
+          ) : (
+            opened?.text && (
+              <p
+                className={`text-sm text-pretty ${
+                  verification === "invalid" ? "text-red-400" : message.encrypted ? "text-foreground" : "text-slate-300"
+                }`}
+              >
+                {opened.text}
+              </p>
+            )
+          )}
+          {!isBlocked && opened && opened.attachments.length > 0 && (
+            <MessageAttachments attachments={opened.attachments} />
+          )}
+          {verification === "unverified" && <p className="text-xs text-amber-400 mt-0.5">Unverified sender</p>}
+        </div>
+      </>
+    )
+  }
+
+  // Notices from after sealed metadata are encrypted under the room key like everything else
+  const SystemMessageContent = ({ message }: { message: ChatMessage }) => {
+    const [text, setText] = useState(message.encrypted ? "" : message.content)
+
+    useEffect(() => {
+      if (!message.encrypted) return
+      getDisplayContent(message)
+        .then(setText)
+        .catch((error) => console.error("[v0] Failed to decrypt system message:", error))
+    }, [message, selectedRoom, roomKeyVersion])
+
+    return <>{text}</>
+  }
+
+  // Decrypt an attachment's chunks into an object URL, once per session
+  const loadAttachmentUrl = async (ref: AttachmentRef): Promise<string | null> => {
+    const cached = attachmentUrls.current.get(ref.id)
+    if (cached) return cached
+
+    const stored = syncManager.loadData()?.attachments[ref.id]
+    if (!stored) return null
+
+    const url = URL.createObjectURL(await decryptAttachment(ref, stored.chunks))
+    attachmentUrls.current.set(ref.id, url)
+    return url
+  }
+
+  const MessageAttachments = ({ attachments }: { attachments: AttachmentRef[] }) => {
+    const [urls, setUrls] = useState<{ [attachmentId: string]: string | null }>({})
+
+    useEffect(() => {
+      attachments.forEach((ref) => {
+        loadAttachmentUrl(ref)
+          .then((url) => setUrls((prev) => ({ ...prev, [ref.id]: url })))
+          .catch((error) => {
+            console.error("[v0] Failed to decrypt attachment:", error)
+            setUrls((prev) => ({ ...prev, [ref.id]: null }))
+          })
+      })
+    }, [attachments])
+
+    const images = attachments.filter((ref) => isImageAttachment(ref) && urls[ref.id])
+    const openViewer = (ref: AttachmentRef) =>
+      setImageViewer({
+        images: images.map((image) => ({ url: urls[image.id]!, name: image.name })),
+        index: images.findIndex((image) => image.id === ref.id),
+      })
+
+    return (
+      <div className="flex flex-wrap gap-2 mt-2">
+        {attachments.map((ref) => {
+          const url = urls[ref.id]
+          if (isImageAttachment(ref) && url) {
+            return (
+              <img
+                key={ref.id}
+                src={url}
+                alt={ref.name}
+                onClick={() => openViewer(ref)}
+                className="max-h-48 max-w-xs rounded-md border border-slate-700 object-cover cursor-zoom-in"
+              />
+            )
+          }
+
+          return (
+            <a
+              key={ref.id}
+              href={url || undefined}
+              download={ref.name}
+              className={`flex items-center gap-2 rounded-md border border-slate-700 bg-slate-800 px-3 py-2 text-sm ${
+                url ? "text-slate-200 hover:bg-slate-700" : "pointer-events-none text-slate-500"
+              }`}
+            >
+              <FileText className="h-4 w-4 text-slate-400" />
+              <span className="truncate max-w-48">{ref.name}</span>
+              <span className="text-xs text-slate-400">
+                {url === null ? "unavailable" : url ? formatFileSize(ref.size) : "decrypting..."}
+              </span>
+            </a>
+          )
+        })}
+      </div>
+    )
+  }
+
+  // Existing device: show a one-time code for the new device to type or scan
+  const handleStartDeviceLink = async () => {
+    if (!currentAccount || currentAccount.isTemporary) return
+
+    setLinkError("")
+    setLinkQrCode("")
+    setShowLinkDeviceDialog(true)
+    // Endorsements are checked against the account's own signing key, which only its first device holds
+    if (currentDeviceId) {
+      setLinkStatus("failed")
+      setLinkError("Link new devices from the device you created the account on.")
+      return
+    }
+    try {
+      const code = createLinkCode()
+      setLinkQrCode(await QRCode.toDataURL(linkCodeUri(code), { margin: 1, width: 224 }))
+      setLinkStatus("waiting")
+      setLinkSession(await createLinkSession(code))
+    } catch (error) {
+      console.error("[v0] Failed to start device link:", error)
+      setLinkStatus("failed")
+      setLinkError(error instanceof Error ? error.message : "Couldn't start pairing")
+    }
+  }
+
+  // Vouch for the keys the new device made with the account's signing key, and wrap every room key and sender
+  // chain we hold for them. Our own private keys never leave this device
+  const linkDevice = async (account: Account, device: unknown): Promise<DeviceBundle> => {
+    if (!isNewDevice(device)) throw new Error("The new device sent no keys")
+
+    const { publicKey, signingKey, agreementKey, kemKey } = device.keys
+    const keys: DeviceKeys = { publicKey, signingKey, agreementKey, kemKey }
+    const endorsement = await encryptionManager.sign(deviceEndorsementPayload(account.id, device.deviceId, keys))
+    const wrappedKeyring = await encryptionManager.wrapKeyringFor(account.id, device.deviceId, keys)
+    syncManager.append({
+      kind: "device-linked",
+      userId: account.id,
+      deviceId: device.deviceId,
+      device: { ...keys, endorsement },
+    })
+    return { version: 2, account, keys: wrappedKeyring }
+  }
+
+  const handleCloseDeviceLink = () => {
+    setLinkSession(null)
+    setLinkQrCode("")
+    setShowLinkDeviceDialog(false)
+  }
+
+  // New device: make keys for this device, have the existing device vouch for them, and sign in with the room keys
+  // it wrapped for them
+  const handleLinkThisDevice = async (value = linkCodeInput) => {
+    const code = parseLinkCode(value)
+    if (!code) {
+      setLinkError(`Enter the ${LINK_CODE_LENGTH}-digit code shown on your other device`)
+      return
+    }
+
+    setIsLinkingDevice(true)
+    setLinkError("")
+    try {
+      const deviceId = window.crypto.randomUUID()
+      // Made without persisting; linkIdentity stores them under the account once the other device answers
+      await encryptionManager.loadIdentity(deviceId, false)
+      const device: NewDevice = { deviceId, keys: await encryptionManager.exportDeviceKeys() }
+
+      const session = await createLinkSession(code)
+      const bundle = await new Promise<DeviceBundle>((resolve, reject) => {
+        const unsubscribe = syncManager.onDeviceLink((message) => {
+          if (message.step !== "response" || message.requestPub !== session.publicKey) return
+          clearTimeout(timeout)
+          unsubscribe()
+          openLinkResponse<DeviceBundle>(session, message).then(resolve, reject)
+        })
+        const timeout = setTimeout(() => {
+          unsubscribe()
+          reject(new Error("No device answered"))
+        }, 60 * 1000)
+        createLinkRequest(session, device)
+          .then((request) => syncManager.sendDeviceLink(request))
+          .catch(reject)
+      })
+      if (bundle.version !== 2) throw new Error("Update the other device before linking this one")
+
+      await encryptionManager.linkIdentity(bundle.account.id, deviceId, bundle.keys)
+      if (!syncManager.loadData()?.accounts.some((acc) => acc.id === bundle.account.id)) {
+        syncManager.append({ kind: "account-created", account: bundle.account })
+      }
+
+      setCurrentAccount(bundle.account)
+      setNickname(bundle.account.nickname)
+      setShowLinkThisDevice(false)
+      setLinkCodeInput("")
+      handleJoinWithAccount(bundle.account)
+    } catch (error) {
+      console.error("[v0] Failed to link device:", error)
+      setLinkError("Pairing failed. Generate a new code on your other device and try again.")
+    } finally {
+      setIsLinkingDevice(false)
+    }
+  }
+
+  const handleScanLinkCode = async () => {
+    try {
+      scanStreamRef.current = await navigator.mediaDevices.getUserMedia({ video: { facingMode: "environment" } })
+      setIsScanningLinkCode(true)
+    } catch (error) {
+      console.error("[v0] Failed to open camera:", error)
+      setLinkError("Couldn't open the camera. Type the code instead.")
+    }
+  }
+
+  const stopScanningLinkCode = () => {
+    scanStreamRef.current?.getTracks().forEach((track) => track.stop())
+    scanStreamRef.current = null
+    setIsScanningLinkCode(false)
+  }
+
+  const canScanLinkCode = typeof window !== "undefined" && "BarcodeDetector" in window
+
+  const handleExportBackup = async () => {
+    if (!currentAccount || currentAccount.isTemporary) return
+    if (!backupPassphrase || backupPassphrase !== confirmBackupPassphrase) return
+
+    setIsExportingBackup(true)
+    setBackupError("")
+    try {
+      // Messages that expired since the last sweep stay out of the backup
+      await purgeExpiredMessages()
+      const data = syncManager.loadData()
+      if (!data) throw new Error("Nothing to back up yet")
+
+      const operations = syncManager.exportOperations(backupOperationFilter(data, currentAccount.id))
+      const senderKeyMessages = operations.flatMap(({ op }) =>
+        op.kind === "message-sent" && op.message.senderKey ? [op] : [],
+      )
+      // Read every sender-key message now; a restored device could never derive their message keys
+      for (const { roomId, message } of senderKeyMessages) {
+        await encryptionManager
+          .decryptWithSenderKey(roomId, message)
+          .catch((error) => console.error("[v0] Failed to decrypt message for backup:", error))
+      }
+
+      const backup: AccountBackup = {
+        version: 2,
+        account: currentAccount,
+        keys: await encryptionManager.exportKeyring(),
+        operations,
+        plaintexts: encryptionManager.exportPlaintexts(senderKeyMessages.map(({ message }) => message.id)),
+        successor: await encryptionManager.createSuccessorKey(currentAccount.id),
+      }
+      const sealed = await sealBackup(backup, backupPassphrase)
+
+      const url = URL.createObjectURL(new Blob([JSON.stringify(sealed)], { type: BACKUP_FILE_TYPE }))
+      const link = document.createElement("a")
+      link.href = url
+      link.download = backupFileName(currentAccount.nickname)
+      link.click()
+      setTimeout(() => URL.revokeObjectURL(url), 0)
+
+      console.log("[v0] Backup exported with operations:", operations.length)
+      setShowBackupDialog(false)
+    } catch (error) {
+      console.error("[v0] Failed to export backup:", error)
+      setBackupError(error instanceof Error ? error.message : "Couldn't create the backup")
+    } finally {
+      setIsExportingBackup(false)
+      setBackupPassphrase("")
+      setConfirmBackupPassphrase("")
+    }
+  }
+
+  const handleRestoreBackup = async () => {
+    if (!restoreFile || !restorePassphrase) return
+
+    setIsRestoringBackup(true)
+    setRestoreError("")
+    try {
+      let backup: AccountBackup | LegacyAccountBackup
+      try {
+        backup = await openBackup<AccountBackup | LegacyAccountBackup>(
+          JSON.parse(await restoreFile.text()),
+          restorePassphrase,
+        )
+      } catch (error) {
+        // AES-GCM reports a wrong passphrase and a modified file the same way
+        throw error instanceof DOMException ? new Error("Incorrect passphrase, or the backup file is damaged") : error
+      }
+      if (backup.version !== 1 && backup.version !== 2) throw new Error("Unsupported backup contents")
+
+      const existing = syncManager.loadData()?.accounts.find((acc) => acc.nickname === backup.account.nickname)
+      if (existing && existing.id !== backup.account.id) {
+        throw new Error(`Another account named ${backup.account.nickname} already exists on this device`)
+      }
+
+      if (backup.version === 1) {
+        await encryptionManager.importLegacyKeys(backup.account.id, backup.keys)
+      } else {
+        // Contacts see a key change unless this device already held the account's keys
+        await encryptionManager.importKeyring(backup.account.id, backup.keys)
+      }
+      await encryptionManager.importPlaintexts(backup.plaintexts)
+      console.log("[v0] Restored operations from backup:", syncManager.restore(backup.operations))
+      // The backup may hold messages that have expired since it was made
+      await purgeExpiredMessages()
+
+      setCurrentAccount(backup.account)
+      setNickname(backup.account.nickname)
+      setShowRestoreBackup(false)
+      setRestoreFile(null)
+      handleJoinWithAccount(backup.account, backup.version === 2 ? backup.successor : undefined)
+    } catch (error) {
+      console.error("[v0] Failed to restore backup:", error)
+      setRestoreError(error instanceof SyntaxError ? "Not a NoFeds backup file" : (error as Error).message)
+    } finally {
+      setIsRestoringBackup(false)
+      setRestorePassphrase("")
+    }
+  }
+
+  const handleUnlockVault = async () => {
+    if (!vaultPassphrase) return
+
+    try {
+      await syncManager.unlockVault(vaultPassphrase)
+    } catch (error) {
+      console.error("[v0] Failed to unlock vault:", error)
+      setVaultError("Incorrect passphrase. Please try again.")
+      return
+    }
+
+    setIsVaultLocked(false)
+    setVaultPassphrase("")
+    setVaultError("")
+  }
+
+  const handleJoinSyncGroup = async () => {
+    if (!syncPassphraseInput || isJoiningSyncGroup) return
+
+    setIsJoiningSyncGroup(true)
+    try {
+      await syncManager.setSyncPassphrase(syncPassphraseInput)
+      setIsSyncPassphraseNeeded(false)
+      setSyncPassphraseInput("")
+    } catch (error) {
+      console.error("[v0] Failed to join sync group:", error)
+    } finally {
+      setIsJoiningSyncGroup(false)
+    }
+  }
+
+  const handleEnableVault = async () => {
+    if (!newVaultPassphrase || newVaultPassphrase !== confirmVaultPassphrase) return
+
+    try {
+      await syncManager.enableVault(newVaultPassphrase)
+      setIsVaultEnabled(true)
+      setShowVaultDialog(false)
+    } catch (error) {
+      console.error("[v0] Failed to enable vault:", error)
+    } finally {
+      setNewVaultPassphrase("")
+      setConfirmVaultPassphrase("")
+    }
+  }
+
+  const handleDisableVault = async () => {
     try {
-      return await encryptionManager.decryptMessage(message.content, selectedRoom)
+      await syncManager.disableVault()
+      setIsVaultEnabled(false)
+      setShowVaultDialog(false)
     } catch (error) {
-      console.error("Failed to decrypt message:", error)
-      return "[Encrypted message - decryption failed]"
+      console.error("[v0] Failed to disable vault:", error)
     }
   }
 
-  const EncryptedMessageContent = ({ message }: { message: ChatMessage }) => {
-    const [decryptedContent, setDecryptedContent] = useState<string>("")
-
-    useEffect(() => {
-      const decrypt = async () => {
-        try {
-          console.log("[v0] Decrypting message:", message.id)
-          const content = await getDisplayContent(message)
-          setDecryptedContent(content)
-        } catch (error) {
-          console.error("[v0] Failed to decrypt message:", error)
-          setDecryptedContent("[Encrypted message - decryption failed]")
-        }
-      }
-      decrypt()
-    }, [message, selectedRoom])
-
-    return <p className="text-sm text-foreground text-pretty">{decryptedContent}</p>
-  }
-
-  const handleTempAccount = () => {
+  const handleTempAccount = async () => {
     if (!tempNickname.trim()) return
 
     const savedData = syncManager.loadData()
@@ -681,15 +4485,15 @@ export default function ChatApp() {
     }
 
     const tempAccount: Account = {
-      id: Date.now().toString(),
+      id: window.crypto.randomUUID(),
       nickname: tempNickname.trim(),
-      password: "", // No password for temp accounts
       createdAt: new Date(),
       avatar: "/welcome-new-user.png",
       isTemporary: true,
     }
 
-    // Don't save temporary accounts to persistent storage
+    // Don't save temporary accounts or their keys to persistent storage
+    await encryptionManager.loadIdentity(tempAccount.id, false)
     setCurrentAccount(tempAccount)
     setNickname(tempAccount.nickname)
     setShowTempAccount(false)
@@ -698,7 +4502,7 @@ export default function ChatApp() {
     handleJoinWithAccount(tempAccount)
   }
 
-  const handleSignup = () => {
+  const handleSignup = async () => {
     if (!signupPassword.trim() || !signupNickname.trim()) return
 
     const savedData = syncManager.loadData()
@@ -710,20 +4514,22 @@ export default function ChatApp() {
     }
 
     const newAccount: Account = {
-      id: Date.now().toString(),
+      id: window.crypto.randomUUID(),
       nickname: signupNickname.trim(),
-      password: signupPassword, // In real app, hash this
+      passwordHash: await hashPassword(signupPassword),
       createdAt: new Date(),
       avatar: "/welcome-new-user.png",
       isTemporary: false, // Explicitly mark as permanent account
     }
 
-    const updatedData = {
-      ...savedData,
-      accounts: [...existingAccounts, newAccount],
+    syncManager.append({ kind: "account-created", account: newAccount })
+
+    try {
+      await encryptionManager.loadIdentity(newAccount.id)
+    } catch (error) {
+      console.error("[v0] Failed to create identity key:", error)
     }
 
-    syncManager.saveData(updatedData)
     setCurrentAccount(newAccount)
     setNickname(newAccount.nickname)
     setShowSignup(false)
@@ -732,21 +4538,123 @@ export default function ChatApp() {
     handleJoinWithAccount(newAccount)
   }
 
-  const handleLogin = () => {
+  const handleLogin = async () => {
     if (!loginNickname.trim() || !loginPassword.trim()) return
 
+    // Counted per nickname whether or not the account exists, so failures don't reveal which ones do
+    const attemptKey = loginAttemptKey(loginNickname)
+    if (beginAttempt(attemptKey) > 0) return
+
     const savedData = syncManager.loadData()
     const existingAccounts = savedData?.accounts || []
 
-    const account = existingAccounts.find(
-      (acc: Account) => acc.nickname === loginNickname.trim() && acc.password === loginPassword,
+    const storedAccount: Account | undefined = existingAccounts.find(
+      (acc: Account) => acc.nickname === loginNickname.trim(),
     )
+    const passwordMatches = storedAccount?.passwordHash
+      ? await verifyPassword(loginPassword, storedAccount.passwordHash)
+      : !!storedAccount?.password && storedAccount.password === loginPassword
+
+    if (storedAccount && !passwordMatches && storedAccount.duressHash) {
+      if (await verifyPassword(loginPassword, storedAccount.duressHash)) {
+        // Clears the attempt like a real login would
+        recordSuccess(attemptKey)
+        await handleDuressLogin(storedAccount, loginPassword)
+        return
+      }
+    }
 
-    if (!account) {
+    if (!storedAccount || !passwordMatches) {
+      setAttemptClock(Date.now())
       alert("Invalid nickname or password!")
       return
     }
 
+    if (storedAccount.twoFactor) {
+      try {
+        const state = await openTwoFactor(storedAccount.twoFactor, loginPassword)
+        setPendingTwoFactor({ account: storedAccount, password: loginPassword, state })
+        setTwoFactorCode("")
+        setRecoveryCodeInput("")
+        setUseRecoveryCode(false)
+        setTwoFactorError("")
+      } catch (error) {
+        console.error("[v0] Failed to open two-factor settings:", error)
+        alert("Two-factor settings for this account can't be read.")
+      }
+      return
+    }
+
+    await completeLogin(storedAccount, loginPassword)
+  }
+
+  // Second login step: a code from the authenticator app, or one of the recovery codes, each accepted once
+  const handleVerifyTwoFactor = async (code = twoFactorCode) => {
+    if (!pendingTwoFactor) return
+
+    const { account, password, state } = pendingTwoFactor
+    const attemptKey = loginAttemptKey(account.nickname)
+    if (beginAttempt(attemptKey) > 0) return
+
+    let next: TwoFactorState | null = null
+    if (useRecoveryCode) {
+      const hash = await hashRecoveryCode(recoveryCodeInput)
+      if (state.recoveryCodes.includes(hash)) {
+        next = { ...state, recoveryCodes: state.recoveryCodes.filter((recoveryCode) => recoveryCode !== hash) }
+      }
+    } else {
+      const counter = await verifyTotp(state.secret, code, { lastCounter: state.lastCounter })
+      if (counter !== null) next = { ...state, lastCounter: counter }
+    }
+
+    if (!next) {
+      setAttemptClock(Date.now())
+      setTwoFactorError(useRecoveryCode ? "Invalid recovery code." : "Invalid code. Check your device's clock.")
+      setTwoFactorCode("")
+      return
+    }
+
+    // Recorded once the login has loaded the keys that sign it
+    const changes: AccountOperation[] = []
+    try {
+      const twoFactor = await sealTwoFactor(next, password)
+      changes.push({ kind: "account-two-factor-changed", accountId: account.id, twoFactor })
+    } catch (error) {
+      console.error("[v0] Failed to update two-factor settings:", error)
+    }
+    if (useRecoveryCode) {
+      alert(`Recovery code used. ${next.recoveryCodes.length} left; set up two-factor again for a fresh set.`)
+    }
+
+    setPendingTwoFactor(null)
+    setTwoFactorCode("")
+    setRecoveryCodeInput("")
+    setTwoFactorError("")
+    await completeLogin(account, password, ...changes)
+  }
+
+  const completeLogin = async (storedAccount: Account, password: string, ...changes: AccountOperation[]) => {
+    recordSuccess(loginAttemptKey(storedAccount.nickname))
+
+    try {
+      await encryptionManager.loadIdentity(storedAccount.id)
+    } catch (error) {
+      console.error("[v0] Failed to load identity key:", error)
+    }
+
+    // Upgrade legacy plaintext passwords and outdated hashes while we know the password
+    let account = storedAccount
+    if (!storedAccount.passwordHash || needsRehash(storedAccount.passwordHash)) {
+      const passwordHash = await hashPassword(password)
+      account = { ...storedAccount, password: undefined, passwordHash }
+      changes.push({ kind: "account-password-upgraded", accountId: account.id, passwordHash })
+    }
+    try {
+      if (changes.length > 0) syncManager.append(...(await Promise.all(changes.map(signAccountOperation))))
+    } catch (error) {
+      console.error("[v0] Failed to update account settings:", error)
+    }
+
     setCurrentAccount(account)
     setNickname(account.nickname)
     setShowLogin(false)
@@ -755,15 +4663,62 @@ export default function ChatApp() {
     handleJoinWithAccount(account)
   }
 
-  const handleJoinWithAccount = (account: Account) => {
-    const userId = Date.now().toString()
+  // Wipe the device, then sign in to an empty account that looks like the real one and opens with the duress password
+  const handleDuressLogin = async (account: Account, password: string) => {
+    const decoy: Account = {
+      id: window.crypto.randomUUID(),
+      nickname: account.nickname,
+      passwordHash: await hashPassword(password),
+      createdAt: account.createdAt,
+      avatar: account.avatar,
+      isTemporary: false,
+    }
+    // Signed while the real account's keys still exist, so replicas that hold it accept the replacement
+    let signature: string | undefined
+    try {
+      await encryptionManager.loadIdentity(account.id)
+      signature = await encryptionManager.sign(accountReplacedPayload(account.id, decoy))
+    } catch (error) {
+      console.error("[v0] Failed to sign account replacement:", error)
+    }
+
+    await handlePanicWipe()
+
+    // Replicas that still hold the real account must give the nickname to the decoy too
+    syncManager.append({ kind: "account-replaced", previousId: account.id, account: decoy, signature })
+
+    try {
+      await encryptionManager.loadIdentity(decoy.id)
+    } catch (error) {
+      console.error("[v0] Failed to create identity key:", error)
+    }
+
+    setCurrentAccount(decoy)
+    setNickname(decoy.nickname)
+    setShowLogin(false)
+    handleJoinWithAccount(decoy)
+  }
+
+  const handleJoinWithAccount = async (account: Account, successor?: SuccessorKey) => {
+    // The account id is stable across sessions, so room keys wrapped for it stay usable
+    const userId = account.id
+    // A linked device's keys were published by the device that linked it, see device-linked
+    const deviceId = encryptionManager.getDeviceId()
+    const keys = deviceId ? {} : await encryptionManager.exportDeviceKeys()
+    // A restored device made new keys, which other replicas only take with the backup's successor behind them
+    let keyChange: KeyChangeProof | undefined
+    if (successor && !deviceId) {
+      try {
+        keyChange = await encryptionManager.signKeyChange(userId, successor)
+      } catch (error) {
+        console.error("[v0] Failed to sign key change:", error)
+      }
+    }
     setCurrentUser(account.nickname)
     setCurrentUserId(userId)
+    setCurrentDeviceId(deviceId)
     setIsJoined(true)
 
-    const savedData = syncManager.loadData()
-    const existingUsers = savedData?.users || []
-
     const newUser: User = {
       id: userId,
       nickname: account.nickname,
@@ -772,21 +4727,12 @@ export default function ChatApp() {
       statusMessage: "Just joined!",
       avatar: account.avatar || "/welcome-new-user.png",
       hasAccount: true,
+      ...keys,
+      keyChange,
     }
 
-    const updatedUsers = existingUsers.filter((u: User) => u.nickname !== account.nickname)
-    const newUsersList = [...updatedUsers, newUser]
-
-    // Update local state
-    setOnlineUsers(newUsersList)
-
-    // Sync data properly through syncManager
-    const updatedData = {
-      ...savedData,
-      users: newUsersList,
-    }
-    syncManager.saveData(updatedData)
-    syncManager.broadcastUpdate("users", newUsersList)
+    // Replaces any existing user with the same nickname
+    syncManager.append({ kind: "user-joined", user: newUser })
   }
 
   if (!isJoined) {
@@ -810,7 +4756,73 @@ export default function ChatApp() {
               <CardDescription className="text-slate-400">Choose how you want to join the conversation</CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
-              {!showSignup && !showLogin && !showTempAccount && (
+              {isVaultLocked && (
+                <div className="space-y-4">
+                  <div className="text-center">
+                    <h3 className="text-lg font-semibold text-white mb-2">Unlock Vault</h3>
+                    <p className="text-sm text-slate-400 mb-4">
+                      Local data on this device is encrypted. Enter the vault passphrase to continue.
+                    </p>
+                  </div>
+                  <div className="space-y-3">
+                    <Input
+                      type="password"
+                      placeholder="Vault passphrase"
+                      value={vaultPassphrase}
+                      onChange={(e) => setVaultPassphrase(e.target.value)}
+                      className="bg-slate-700 border-slate-600 text-white placeholder-slate-400"
+                      onKeyPress={(e) => e.key === "Enter" && handleUnlockVault()}
+                    />
+                    {vaultError && <p className="text-sm text-red-500">{vaultError}</p>}
+                    <Button
+                      onClick={handleUnlockVault}
+                      disabled={!vaultPassphrase}
+                      className="w-full bg-emerald-600 hover:bg-emerald-700 text-white"
+                    >
+                      <Key className="w-4 h-4 mr-2" />
+                      Unlock
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              {!isVaultLocked && isSyncPassphraseNeeded && (
+                <div className="space-y-4">
+                  <div className="text-center">
+                    <h3 className="text-lg font-semibold text-white mb-2">Join Sync Group</h3>
+                    <p className="text-sm text-slate-400 mb-4">
+                      This app syncs through a relay. Enter the sync passphrase your group agreed on; the relay only
+                      sees what it seals. It is separate from your vault passphrase and is remembered on this device.
+                    </p>
+                  </div>
+                  <div className="space-y-3">
+                    <Input
+                      type="password"
+                      placeholder="Sync passphrase"
+                      value={syncPassphraseInput}
+                      onChange={(e) => setSyncPassphraseInput(e.target.value)}
+                      className="bg-slate-700 border-slate-600 text-white placeholder-slate-400"
+                      onKeyPress={(e) => e.key === "Enter" && handleJoinSyncGroup()}
+                    />
+                    <Button
+                      onClick={handleJoinSyncGroup}
+                      disabled={!syncPassphraseInput || isJoiningSyncGroup}
+                      className="w-full bg-emerald-600 hover:bg-emerald-700 text-white"
+                    >
+                      <Key className="w-4 h-4 mr-2" />
+                      {isJoiningSyncGroup ? "Deriving key..." : "Join"}
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              {!isVaultLocked &&
+                !isSyncPassphraseNeeded &&
+                !showSignup &&
+                !showLogin &&
+                !showTempAccount &&
+                !showLinkThisDevice &&
+                !showRestoreBackup && (
                 <>
                   <div className="space-y-3">
                     <Button
@@ -836,6 +4848,28 @@ export default function ChatApp() {
                       <Clock className="w-4 h-4 mr-2" />
                       Temporary Session
                     </Button>
+                    <Button
+                      onClick={() => {
+                        setLinkError("")
+                        setShowLinkThisDevice(true)
+                      }}
+                      variant="outline"
+                      className="w-full border-slate-600 text-slate-300 hover:bg-slate-700"
+                    >
+                      <MonitorSmartphone className="w-4 h-4 mr-2" />
+                      Link to Existing Device
+                    </Button>
+                    <Button
+                      onClick={() => {
+                        setRestoreError("")
+                        setShowRestoreBackup(true)
+                      }}
+                      variant="outline"
+                      className="w-full border-slate-600 text-slate-300 hover:bg-slate-700"
+                    >
+                      <Upload className="w-4 h-4 mr-2" />
+                      Restore from Backup
+                    </Button>
                     <div className="relative">
                       <div className="absolute inset-0 flex items-center">
                         <span className="w-full border-t border-slate-600" />
@@ -866,6 +4900,121 @@ export default function ChatApp() {
                 </>
               )}
 
+              {showRestoreBackup && (
+                <div className="space-y-4">
+                  <div className="text-center">
+                    <h3 className="text-lg font-semibold text-white mb-2">Restore from Backup</h3>
+                    <p className="text-sm text-slate-400 mb-4">
+                      Choose a NoFeds backup file and enter the passphrase it was created with.
+                    </p>
+                  </div>
+                  <div className="space-y-3">
+                    <Input
+                      type="file"
+                      accept=".json,application/json"
+                      onChange={(e) => setRestoreFile(e.target.files?.[0] || null)}
+                      className="bg-slate-700 border-slate-600 text-slate-300 file:text-slate-300"
+                    />
+                    <Input
+                      type="password"
+                      placeholder="Backup passphrase"
+                      value={restorePassphrase}
+                      onChange={(e) => setRestorePassphrase(e.target.value)}
+                      className="bg-slate-700 border-slate-600 text-white placeholder-slate-400"
+                      onKeyPress={(e) => e.key === "Enter" && handleRestoreBackup()}
+                    />
+                    {restoreError && <p className="text-sm text-red-500">{restoreError}</p>}
+                    <div className="flex gap-2">
+                      <Button
+                        onClick={handleRestoreBackup}
+                        disabled={!restoreFile || !restorePassphrase || isRestoringBackup}
+                        className="flex-1 bg-emerald-600 hover:bg-emerald-700 text-white"
+                      >
+                        <Upload className="w-4 h-4 mr-2" />
+                        {isRestoringBackup ? "Restoring..." : "Restore"}
+                      </Button>
+                      <Button
+                        onClick={() => {
+                          setShowRestoreBackup(false)
+                          setRestoreFile(null)
+                          setRestorePassphrase("")
+                        }}
+                        variant="outline"
+                        className="border-slate-600 text-slate-300 hover:bg-slate-700"
+                      >
+                        Cancel
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              {showLinkThisDevice && (
+                <div className="space-y-4">
+                  <div className="text-center">
+                    <h3 className="text-lg font-semibold text-white mb-2">Link to Existing Device</h3>
+                    <p className="text-sm text-slate-400 mb-4">
+                      On a device that's already signed in, choose "Link Device" and enter the code it shows.
+                    </p>
+                  </div>
+                  <div className="space-y-3">
+                    {isScanningLinkCode ? (
+                      <video ref={scanVideoRef} muted playsInline className="w-full rounded-md bg-black" />
+                    ) : (
+                      <div className="flex justify-center">
+                        <InputOTP
+                          maxLength={LINK_CODE_LENGTH}
+                          inputMode="numeric"
+                          pattern="^[0-9]*$"
+                          value={linkCodeInput}
+                          onChange={setLinkCodeInput}
+                          onComplete={(code: string) => handleLinkThisDevice(code)}
+                          disabled={isLinkingDevice}
+                        >
+                          <InputOTPGroup>
+                            {Array.from({ length: LINK_CODE_LENGTH }, (_, index) => (
+                              <InputOTPSlot key={index} index={index} className="border-slate-600 text-white" />
+                            ))}
+                          </InputOTPGroup>
+                        </InputOTP>
+                      </div>
+                    )}
+                    {linkError && <p className="text-sm text-red-500">{linkError}</p>}
+                    {isLinkingDevice && <p className="text-sm text-slate-400">Waiting for your other device...</p>}
+                    <div className="flex gap-2">
+                      <Button
+                        onClick={() => handleLinkThisDevice()}
+                        disabled={isLinkingDevice || linkCodeInput.length !== LINK_CODE_LENGTH}
+                        className="flex-1 bg-emerald-600 hover:bg-emerald-700 text-white"
+                      >
+                        <MonitorSmartphone className="w-4 h-4 mr-2" />
+                        Link Device
+                      </Button>
+                      {canScanLinkCode && (
+                        <Button
+                          onClick={isScanningLinkCode ? stopScanningLinkCode : handleScanLinkCode}
+                          variant="outline"
+                          className="border-slate-600 text-slate-300 hover:bg-slate-700"
+                        >
+                          <ScanLine className="w-4 h-4 mr-2" />
+                          {isScanningLinkCode ? "Stop" : "Scan"}
+                        </Button>
+                      )}
+                      <Button
+                        onClick={() => {
+                          stopScanningLinkCode()
+                          setShowLinkThisDevice(false)
+                        }}
+                        variant="outline"
+                        className="border-slate-600 text-slate-300 hover:bg-slate-700"
+                      >
+                        Cancel
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              )}
+
               {showTempAccount && (
                 <div className="space-y-4">
                   <div className="text-center">
@@ -948,7 +5097,87 @@ export default function ChatApp() {
                 </div>
               )}
 
-              {showLogin && (
+              {showLogin && pendingTwoFactor && (
+                <div className="space-y-4">
+                  <div className="text-center">
+                    <h3 className="text-lg font-semibold text-white mb-2">Two-Factor Authentication</h3>
+                    <p className="text-sm text-slate-400 mb-4">
+                      {useRecoveryCode
+                        ? "Enter one of the recovery codes you saved when you set up two-factor."
+                        : "Enter the 6-digit code from your authenticator app."}
+                    </p>
+                  </div>
+                  <div className="space-y-3">
+                    {useRecoveryCode ? (
+                      <Input
+                        type="text"
+                        placeholder="xxxxx-xxxxx"
+                        value={recoveryCodeInput}
+                        onChange={(e) => setRecoveryCodeInput(e.target.value)}
+                        className="bg-slate-700 border-slate-600 text-white placeholder-slate-400 font-mono"
+                        onKeyPress={(e) => e.key === "Enter" && handleVerifyTwoFactor()}
+                      />
+                    ) : (
+                      <div className="flex justify-center">
+                        <InputOTP
+                          maxLength={TOTP_DIGITS}
+                          inputMode="numeric"
+                          pattern="^[0-9]*$"
+                          value={twoFactorCode}
+                          onChange={setTwoFactorCode}
+                          onComplete={(code: string) => handleVerifyTwoFactor(code)}
+                        >
+                          <InputOTPGroup>
+                            {Array.from({ length: TOTP_DIGITS }, (_, index) => (
+                              <InputOTPSlot key={index} index={index} className="border-slate-600 text-white" />
+                            ))}
+                          </InputOTPGroup>
+                        </InputOTP>
+                      </div>
+                    )}
+                    {twoFactorError && <p className="text-sm text-red-500">{twoFactorError}</p>}
+                    {loginWait > 0 && (
+                      <p className="text-sm text-amber-400">
+                        Too many attempts. Try again in {formatRetryDelay(loginWait)}.
+                      </p>
+                    )}
+                    <div className="flex gap-2">
+                      <Button
+                        onClick={() => handleVerifyTwoFactor()}
+                        disabled={
+                          loginWait > 0 ||
+                          (useRecoveryCode ? !recoveryCodeInput.trim() : twoFactorCode.length !== TOTP_DIGITS)
+                        }
+                        className="flex-1 bg-emerald-600 hover:bg-emerald-700 text-white"
+                      >
+                        Verify
+                      </Button>
+                      <Button
+                        onClick={() => {
+                          setPendingTwoFactor(null)
+                          setTwoFactorError("")
+                        }}
+                        variant="outline"
+                        className="border-slate-600 text-slate-300 hover:bg-slate-700"
+                      >
+                        Cancel
+                      </Button>
+                    </div>
+                    <Button
+                      onClick={() => {
+                        setUseRecoveryCode(!useRecoveryCode)
+                        setTwoFactorError("")
+                      }}
+                      variant="link"
+                      className="w-full text-slate-400"
+                    >
+                      {useRecoveryCode ? "Use authenticator code" : "Use a recovery code"}
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              {showLogin && !pendingTwoFactor && (
                 <div className="space-y-4">
                   <div className="text-center">
                     <h3 className="text-lg font-semibold text-white mb-2">Login to Account</h3>
@@ -972,10 +5201,15 @@ export default function ChatApp() {
                       className="bg-slate-700 border-slate-600 text-white placeholder-slate-400"
                       onKeyPress={(e) => e.key === "Enter" && handleLogin()}
                     />
+                    {loginWait > 0 && (
+                      <p className="text-sm text-amber-400">
+                        Too many attempts. Try again in {formatRetryDelay(loginWait)}.
+                      </p>
+                    )}
                     <div className="flex gap-2">
                       <Button
                         onClick={handleLogin}
-                        disabled={!loginNickname.trim() || !loginPassword.trim()}
+                        disabled={!loginNickname.trim() || !loginPassword.trim() || loginWait > 0}
                         className="flex-1 bg-emerald-600 hover:bg-emerald-700 text-white"
                       >
                         Login
@@ -1005,6 +5239,78 @@ export default function ChatApp() {
     )
   }
 
+  if (isSessionLocked) {
+    const canUsePin =
+      !!currentAccount?.pinHash && failureCount(pinAttemptKey(currentAccount.id), attemptClock) < MAX_PIN_ATTEMPTS
+    const pinMode = canUsePin && !unlockWithPassword
+    const unlockWait = currentAccount
+      ? retryDelay(pinMode ? pinAttemptKey(currentAccount.id) : loginAttemptKey(currentAccount.nickname), attemptClock)
+      : 0
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 flex items-center justify-center p-4">
+        <div className="w-full max-w-md">
+          <Card className="bg-slate-800/50 border-slate-700 backdrop-blur-sm">
+            <CardHeader className="text-center">
+              <CardTitle className="text-white flex items-center justify-center gap-2">
+                <Lock className="w-5 h-5 text-emerald-400" />
+                Session Locked
+              </CardTitle>
+              <CardDescription className="text-slate-400">
+                {currentUser} was inactive, so NoFeds locked. Unlock to continue.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <Input
+                type="password"
+                inputMode={pinMode ? "numeric" : undefined}
+                placeholder={pinMode ? "PIN" : "Account password"}
+                value={unlockSecret}
+                onChange={(e) => setUnlockSecret(e.target.value)}
+                className="bg-slate-700 border-slate-600 text-white placeholder-slate-400"
+                onKeyPress={(e) => e.key === "Enter" && handleUnlockSession()}
+                autoFocus
+              />
+              {unlockError && <p className="text-sm text-red-500">{unlockError}</p>}
+              {unlockWait > 0 && (
+                <p className="text-sm text-amber-400">
+                  Too many attempts. Try again in {formatRetryDelay(unlockWait)}.
+                </p>
+              )}
+              <Button
+                onClick={handleUnlockSession}
+                disabled={!unlockSecret || unlockWait > 0}
+                className="w-full bg-emerald-600 hover:bg-emerald-700 text-white"
+              >
+                <Key className="w-4 h-4 mr-2" />
+                Unlock
+              </Button>
+              {canUsePin && (
+                <Button
+                  onClick={() => {
+                    setUnlockWithPassword(pinMode)
+                    setUnlockError("")
+                  }}
+                  variant="outline"
+                  className="w-full border-slate-600 text-slate-300 hover:bg-slate-700"
+                >
+                  {pinMode ? "Use Password Instead" : "Use PIN Instead"}
+                </Button>
+              )}
+              <Button
+                onClick={handleLogout}
+                variant="outline"
+                className="w-full border-slate-600 text-slate-300 hover:bg-slate-700"
+              >
+                <LogOut className="w-4 h-4 mr-2" />
+                Logout
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    )
+  }
+
   return (
     <div className="h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 flex flex-col">
       {/* Header */}
@@ -1028,6 +5334,40 @@ export default function ChatApp() {
                 )}
               </div>
             )}
+            {currentAccount && !currentAccount.isTemporary && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleStartDeviceLink}
+                className="border-slate-600 text-slate-300 hover:bg-slate-700 bg-transparent"
+              >
+                <MonitorSmartphone className="w-4 h-4 mr-2" />
+                Link Device
+              </Button>
+            )}
+            {currentAccount && !currentAccount.isTemporary && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  setBackupError("")
+                  setShowBackupDialog(true)
+                }}
+                className="border-slate-600 text-slate-300 hover:bg-slate-700 bg-transparent"
+              >
+                <Download className="w-4 h-4 mr-2" />
+                Backup
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowVaultDialog(true)}
+              className="border-slate-600 text-slate-300 hover:bg-slate-700 bg-transparent"
+            >
+              <Key className="w-4 h-4 mr-2" />
+              {isVaultEnabled ? "Vault On" : "Vault Off"}
+            </Button>
             <Button
               variant="outline"
               size="sm"
@@ -1037,6 +5377,15 @@ export default function ChatApp() {
               <LogOut className="w-4 h-4 mr-2" />
               Logout
             </Button>
+            <Button
+              variant="destructive"
+              size="sm"
+              onClick={handlePanicWipe}
+              title={`Wipe all keys and data on this device (${PANIC_SHORTCUT_LABEL})`}
+            >
+              <Flame className="w-4 h-4 mr-2" />
+              Panic
+            </Button>
           </div>
         </div>
       </header>
@@ -1125,7 +5474,7 @@ export default function ChatApp() {
               </Button>
             </div>
             <div className="space-y-2">
-              {chatRooms.length === 0 ? (
+              {groupRooms.length === 0 ? (
                 <div className="text-center py-8">
                   <div className="flex flex-col items-center gap-3">
                     <div className="p-3 rounded-full bg-slate-700">
@@ -1142,28 +5491,69 @@ export default function ChatApp() {
                   </div>
                 </div>
               ) : (
-                chatRooms.map((room) => (
-                  <Card
+                groupRooms.map((room) => {
+                  const metadata = getRoomMetadata(room)
+                  return (
+                    <Card
+                      key={room.id}
+                      className={`cursor-pointer hover:bg-slate-700 transition-colors ${
+                        selectedRoom === room.id ? "ring-2 ring-emerald-500" : ""
+                      }`}
+                      onClick={() => handleRoomJoin(room.id)}
+                    >
+                      <CardContent className="p-3">
+                        <div className="flex items-center justify-between mb-1">
+                          <div className="flex items-center gap-2">
+                            {metadata ? (
+                              <h3 className="font-medium text-sm text-white">{metadata.name}</h3>
+                            ) : (
+                              <h3 className="font-medium text-sm text-slate-400 italic">Sealed room</h3>
+                            )}
+                            {room.hasPassword && <Lock className="h-3 w-3 text-slate-400" />}
+                          </div>
+                          <Badge variant="outline" className="text-xs">
+                            {room.userCount}
+                          </Badge>
+                        </div>
+                        {metadata?.description && (
+                          <p className="text-xs text-slate-400 text-pretty">{metadata.description}</p>
+                        )}
+                        <p className="text-xs text-slate-400 mt-1">
+                          {!metadata
+                            ? "Name visible to members only"
+                            : metadata.createdBy === currentUser
+                              ? "Created by you"
+                              : `Created by ${metadata.createdBy || "unknown"}`}
+                        </p>
+                      </CardContent>
+                    </Card>
+                  )
+                })
+              )}
+            </div>
+
+            <div className="flex items-center justify-between mt-6 mb-3">
+              <h2 className="font-semibold text-slate-300">Direct Messages</h2>
+              <Badge variant="secondary" className="text-xs">
+                {directRooms.length}
+              </Badge>
+            </div>
+            <div className="space-y-1">
+              {directRooms.length === 0 ? (
+                <p className="text-xs text-slate-400">Open a user's profile and choose Message to start one.</p>
+              ) : (
+                directRooms.map((room) => (
+                  <div
                     key={room.id}
-                    className={`cursor-pointer hover:bg-slate-700 transition-colors ${
+                    className={`flex items-center gap-2 p-2 rounded-lg cursor-pointer hover:bg-slate-700 transition-colors ${
                       selectedRoom === room.id ? "ring-2 ring-emerald-500" : ""
                     }`}
                     onClick={() => handleRoomJoin(room.id)}
                   >
-                    <CardContent className="p-3">
-                      <div className="flex items-center justify-between mb-1">
-                        <div className="flex items-center gap-2">
-                          <h3 className="font-medium text-sm text-white">{room.name}</h3>
-                          {room.hasPassword && <Lock className="h-3 w-3 text-slate-400" />}
-                        </div>
-                        <Badge variant="outline" className="text-xs">
-                          {room.userCount}
-                        </Badge>
-                      </div>
-                      {room.description && <p className="text-xs text-slate-400 text-pretty">{room.description}</p>}
-                      <p className="text-xs text-slate-400 mt-1">Created by you</p>
-                    </CardContent>
-                  </Card>
+                    <MessageCircle className="h-4 w-4 text-slate-400" />
+                    <span className="text-sm text-white truncate">{getRoomTitle(room)}</span>
+                    <Lock className="h-3 w-3 text-slate-400 ml-auto" />
+                  </div>
                 ))
               )}
             </div>
@@ -1178,88 +5568,184 @@ export default function ChatApp() {
                 <div className="flex items-center justify-between">
                   <div>
                     <h2 className="font-semibold text-white flex items-center gap-2">
-                      #{chatRooms.find((r) => r.id === selectedRoom)?.name || "Unknown Room"}
+                      {getRoomTitle(chatRooms.find((r) => r.id === selectedRoom))}
                       <div className="flex items-center gap-1 text-xs text-slate-400">
                         <Shield className="h-3 w-3" />
                         <span>Encrypted</span>
                       </div>
                     </h2>
                     <p className="text-sm text-slate-400 mt-1">
-                      {chatRooms.find((r) => r.id === selectedRoom)?.description || "No description"}
+                      {chatRooms.find((r) => r.id === selectedRoom)?.kind === "direct"
+                        ? "Private conversation, readable only by the two of you"
+                        : selectedRoomMetadata?.description || "No description"}
                     </p>
                   </div>
-                  <Badge variant="secondary">
-                    {chatRooms.find((r) => r.id === selectedRoom)?.userCount || 0} members
-                  </Badge>
+                  <div className="flex items-center gap-2">
+                    <Select
+                      value={String(chatRooms.find((r) => r.id === selectedRoom)?.messageTtl ?? "off")}
+                      onValueChange={handleMessageTtlChange}
+                    >
+                      <SelectTrigger
+                        size="sm"
+                        className="border-slate-600 bg-slate-700 text-xs text-slate-300"
+                        aria-label="Disappearing messages"
+                      >
+                        <Timer className="h-3 w-3" />
+                        {MESSAGE_TTL_OPTIONS.find(
+                          (option) => option.value === chatRooms.find((r) => r.id === selectedRoom)?.messageTtl,
+                        )?.short || "Off"}
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="off">Off</SelectItem>
+                        {MESSAGE_TTL_OPTIONS.map((option) => (
+                          <SelectItem key={option.value} value={String(option.value)}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select value={selectedRoomPadding} onValueChange={handlePaddingChange}>
+                      <SelectTrigger
+                        size="sm"
+                        className="border-slate-600 bg-slate-700 text-xs text-slate-300"
+                        aria-label="Message padding"
+                      >
+                        <Ruler className="h-3 w-3" />
+                        {PADDING_OPTIONS.find((option) => option.value === selectedRoomPadding)?.short}
+                      </SelectTrigger>
+                      <SelectContent>
+                        {PADDING_OPTIONS.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Badge variant="secondary">
+                      {chatRooms.find((r) => r.id === selectedRoom)?.userCount || 0} members
+                    </Badge>
+                  </div>
                 </div>
               </div>
 
-              <div className="flex-1 overflow-y-auto p-4 space-y-4">
-                {messages.map((message) => (
-                  <div key={message.id} className="flex gap-3">
-                    {message.type === "user" ? (
-                      <>
-                        <Avatar className="h-8 w-8 mt-1">
-                          <AvatarImage
-                            src={message.sender === currentUser ? "/welcome-new-user.png" : "/placeholder.svg"}
-                            alt={message.sender}
-                          />
-                          <AvatarFallback className="text-xs">
-                            {message.sender.slice(0, 2).toUpperCase()}
-                          </AvatarFallback>
-                        </Avatar>
-                        <div className="flex-1 min-w-0">
-                          <div className="flex items-center gap-2 mb-1">
-                            <span className="font-medium text-sm text-white">{message.sender}</span>
-                            {message.sender === currentUser && (
-                              <Badge variant="outline" className="text-xs px-1 py-0">
-                                You
-                              </Badge>
-                            )}
-                            {message.encrypted && <Shield className="h-3 w-3 text-emerald-400" />}
-                            <span className="text-xs text-slate-400">{formatMessageTime(message.timestamp)}</span>
+              <div
+                className={`flex-1 overflow-y-auto p-4 space-y-4 ${
+                  isDraggingFiles ? "ring-2 ring-inset ring-emerald-500 bg-slate-800/50" : ""
+                }`}
+                onDragOver={(e) => {
+                  e.preventDefault()
+                  if (hasSelectedRoomKey) setIsDraggingFiles(true)
+                }}
+                onDragLeave={() => setIsDraggingFiles(false)}
+                onDrop={handleFilesDropped}
+              >
+                {timeline.map((entry) => {
+                  if ("keyChange" in entry) {
+                    const { keyChange } = entry
+                    return (
+                      <div key={`key-change-${keyChange.nickname}-${keyChange.change.seenAt}`} className="flex gap-3">
+                        <div className="flex-1">
+                          <div className="flex items-center justify-center gap-2 py-2 px-4 rounded-lg text-sm bg-red-900/30 text-red-400">
+                            <AlertTriangle className="h-4 w-4 shrink-0" />
+                            <span>
+                              {keyChange.nickname}&apos;s identity key changed. It may be someone else using the name;
+                              compare safety numbers before trusting their messages.
+                            </span>
                           </div>
-                          {message.encrypted ? (
-                            <EncryptedMessageContent message={message} />
-                          ) : (
-                            <p className="text-sm text-slate-300 text-pretty">{message.content}</p>
-                          )}
-                        </div>
-                      </>
-                    ) : (
-                      <div className="flex-1">
-                        <div
-                          className={`text-center py-2 px-4 rounded-lg text-sm ${
-                            message.type === "system"
-                              ? "bg-slate-700 text-slate-400"
-                              : "bg-emerald-600/10 text-emerald-400"
-                          }`}
-                        >
-                          {message.content}
                         </div>
                       </div>
-                    )}
-                  </div>
-                ))}
+                    )
+                  }
+
+                  const { message } = entry
+                  return (
+                    <div key={message.id} className="flex gap-3">
+                      {message.type === "user" ? (
+                        <UserMessage message={message} />
+                      ) : (
+                        <div className="flex-1">
+                          <div
+                            className={`text-center py-2 px-4 rounded-lg text-sm ${
+                              message.type === "system"
+                                ? "bg-slate-700 text-slate-400"
+                                : "bg-emerald-600/10 text-emerald-400"
+                            }`}
+                          >
+                            <SystemMessageContent message={message} />
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  )
+                })}
                 <div ref={messagesEndRef} />
               </div>
 
               <div className="p-4 border-t border-slate-700 bg-slate-800">
+                {pendingFiles.length > 0 && (
+                  <div className="flex flex-wrap gap-2 mb-2">
+                    {pendingFiles.map((file, index) => (
+                      <Badge key={`${file.name}-${index}`} variant="secondary" className="gap-1">
+                        {file.type.startsWith("image/") ? (
+                          <ImageIcon className="h-3 w-3" />
+                        ) : (
+                          <FileText className="h-3 w-3" />
+                        )}
+                        <span className="max-w-40 truncate">{file.name}</span>
+                        <span className="text-slate-400">{formatFileSize(file.size)}</span>
+                        <button
+                          type="button"
+                          aria-label={`Remove ${file.name}`}
+                          onClick={() => setPendingFiles((prev) => prev.filter((_, i) => i !== index))}
+                        >
+                          <X className="h-3 w-3" />
+                        </button>
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+                {attachmentError && <p className="text-xs text-red-400 mb-2">{attachmentError}</p>}
                 <div className="flex gap-2">
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    multiple
+                    className="hidden"
+                    onChange={(e) => {
+                      if (e.target.files) addPendingFiles(e.target.files)
+                      e.target.value = ""
+                    }}
+                  />
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={!isEncryptionReady || !hasSelectedRoomKey}
+                    className="border-slate-600 bg-slate-700 text-slate-300 hover:bg-slate-600"
+                    aria-label="Attach files"
+                  >
+                    <Paperclip className="h-4 w-4" />
+                  </Button>
                   <Input
-                    placeholder={`Message #${
-                      chatRooms
-                        .find((r) => r.id === selectedRoom)
-                        ?.name?.toLowerCase()
-                        .replace(" ", "-") || "room"
-                    }... (encrypted)`}
+                    placeholder={
+                      hasSelectedRoomKey
+                        ? `Message ${getRoomTitle(chatRooms.find((r) => r.id === selectedRoom))
+                            .toLowerCase()
+                            .replace(" ", "-")}... (encrypted)`
+                        : "Waiting for a member to share the room key..."
+                    }
                     value={messageInput}
                     onChange={(e) => setMessageInput(e.target.value)}
                     onKeyDown={(e) => e.key === "Enter" && handleSendMessage()}
                     className="flex-1 bg-slate-700 border-slate-600 text-white placeholder-slate-400"
-                    disabled={!isEncryptionReady}
+                    disabled={!isEncryptionReady || !hasSelectedRoomKey}
                   />
-                  <Button onClick={handleSendMessage} disabled={!messageInput.trim() || !isEncryptionReady}>
+                  <Button
+                    onClick={handleSendMessage}
+                    disabled={
+                      (!messageInput.trim() && pendingFiles.length === 0) || !isEncryptionReady || !hasSelectedRoomKey
+                    }
+                  >
                     <Send className="h-4 w-4" />
                   </Button>
                 </div>
@@ -1292,6 +5778,36 @@ export default function ChatApp() {
       </main>
 
       {/* Dialogs */}
+      <Dialog open={!!imageViewer} onOpenChange={(open) => !open && setImageViewer(null)}>
+        <DialogContent className="sm:max-w-3xl bg-slate-800 border border-slate-700 text-white">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <ImageIcon className="h-5 w-5" />
+              Images
+            </DialogTitle>
+            <DialogDescription className="text-slate-400">Decrypted on this device only.</DialogDescription>
+          </DialogHeader>
+          {imageViewer && (
+            <Carousel opts={{ startIndex: imageViewer.index }} className="mx-12">
+              <CarouselContent>
+                {imageViewer.images.map((image) => (
+                  <CarouselItem key={image.url}>
+                    <img src={image.url} alt={image.name} className="mx-auto max-h-[70vh] object-contain" />
+                    <p className="text-xs text-slate-400 text-center mt-2 truncate">{image.name}</p>
+                  </CarouselItem>
+                ))}
+              </CarouselContent>
+              {imageViewer.images.length > 1 && (
+                <>
+                  <CarouselPrevious className="border-slate-600 bg-slate-700 text-white" />
+                  <CarouselNext className="border-slate-600 bg-slate-700 text-white" />
+                </>
+              )}
+            </Carousel>
+          )}
+        </DialogContent>
+      </Dialog>
+
       <Dialog open={showPasswordDialog} onOpenChange={setShowPasswordDialog}>
         <DialogContent className="sm:max-w-md bg-slate-800 border border-slate-700 text-white">
           <DialogHeader>
@@ -1316,6 +5832,11 @@ export default function ChatApp() {
                 className="bg-slate-700 border-slate-600 text-white placeholder-slate-400"
               />
               {passwordError && <p className="text-sm text-red-500">{passwordError}</p>}
+              {roomPasswordWait > 0 && (
+                <p className="text-sm text-amber-400">
+                  Too many attempts. Try again in {formatRetryDelay(roomPasswordWait)}.
+                </p>
+              )}
             </div>
           </div>
           <DialogFooter className="bg-slate-700 border-t border-slate-600">
@@ -1326,7 +5847,7 @@ export default function ChatApp() {
             >
               Cancel
             </Button>
-            <Button onClick={handlePasswordSubmit} disabled={!passwordInput.trim()}>
+            <Button onClick={handlePasswordSubmit} disabled={!passwordInput.trim() || roomPasswordWait > 0}>
               Join Room
             </Button>
           </DialogFooter>
@@ -1392,6 +5913,40 @@ export default function ChatApp() {
                 />
               </div>
             )}
+            <div className="space-y-2">
+              <Label htmlFor="room-message-ttl">Disappearing messages</Label>
+              <Select value={newRoomMessageTtl} onValueChange={setNewRoomMessageTtl}>
+                <SelectTrigger id="room-message-ttl" className="w-full bg-slate-700 border-slate-600 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="off">Off</SelectItem>
+                  {MESSAGE_TTL_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={String(option.value)}>
+                      After {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="room-padding">Message padding</Label>
+              <Select value={newRoomPadding} onValueChange={(value) => setNewRoomPadding(value as PaddingScheme)}>
+                <SelectTrigger id="room-padding" className="w-full bg-slate-700 border-slate-600 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PADDING_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-slate-400">
+                {PADDING_OPTIONS.find((option) => option.value === newRoomPadding)?.description}
+              </p>
+            </div>
           </div>
           <DialogFooter className="bg-slate-700 border-t border-slate-600">
             <Button
@@ -1419,30 +5974,123 @@ export default function ChatApp() {
               User Profile
             </DialogTitle>
           </DialogHeader>
-          {selectedUser && (
+          {selectedUserProfile && (
             <div className="space-y-4">
               <div className="flex items-center gap-4">
                 <div className="relative">
                   <Avatar className="h-16 w-16">
-                    <AvatarImage src={selectedUser.avatar || "/placeholder.svg"} alt={selectedUser.nickname} />
+                    <AvatarImage src={selectedUserProfile.avatar || "/placeholder.svg"} alt={selectedUserProfile.nickname} />
                     <AvatarFallback className="text-lg">
-                      {selectedUser.nickname.slice(0, 2).toUpperCase()}
+                      {selectedUserProfile.nickname.slice(0, 2).toUpperCase()}
                     </AvatarFallback>
                   </Avatar>
                   <div
-                    className={`absolute -bottom-1 -right-1 w-4 h-4 rounded-full border-2 border-slate-800 ${getStatusColor(selectedUser.status)}`}
+                    className={`absolute -bottom-1 -right-1 w-4 h-4 rounded-full border-2 border-slate-800 ${getStatusColor(selectedUserProfile.status)}`}
                   />
                 </div>
                 <div>
-                  <h3 className="text-lg font-semibold">{selectedUser.nickname}</h3>
-                  <p className="text-sm text-slate-400 capitalize">{getStatusText(selectedUser.status)}</p>
-                  <p className="text-sm text-slate-400">Joined {formatJoinTime(selectedUser.joinedAt)}</p>
+                  <h3 className="text-lg font-semibold">{selectedUserProfile.nickname}</h3>
+                  <p className="text-sm text-slate-400 capitalize">{getStatusText(selectedUserProfile.status)}</p>
+                  <p className="text-sm text-slate-400">Joined {formatJoinTime(selectedUserProfile.joinedAt)}</p>
                 </div>
               </div>
-              {selectedUser.statusMessage && (
+              {selectedUserProfile.statusMessage && (
                 <div className="space-y-2">
                   <Label>Status Message</Label>
-                  <p className="text-sm bg-slate-700 p-3 rounded-lg">{selectedUser.statusMessage}</p>
+                  <p className="text-sm bg-slate-700 p-3 rounded-lg">{selectedUserProfile.statusMessage}</p>
+                </div>
+              )}
+              {selectedUserProfile.id !== currentUserId && selectedContact?.pendingChange && (
+                <div className="space-y-3 rounded-lg border border-red-700 bg-red-900/30 p-3">
+                  <div className="flex items-start gap-2 text-sm text-red-300">
+                    <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0 text-red-400" />
+                    <p className="text-pretty">
+                      {selectedUserProfile.nickname}&apos;s identity key changed on{" "}
+                      {new Date(selectedContact.pendingChange.seenAt).toLocaleString()}. This may be a different person
+                      using the same name. Compare the new safety number with them before trusting it.
+                    </p>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleAcceptKeyChange("unverified")}
+                      className="border-red-700 text-red-300 hover:bg-red-900/50"
+                    >
+                      Accept new key
+                    </Button>
+                    <Button size="sm" onClick={() => handleAcceptKeyChange("verified")}>
+                      <ShieldCheck className="h-4 w-4 mr-2" />
+                      Numbers match
+                    </Button>
+                  </div>
+                </div>
+              )}
+              {selectedUserProfile.id !== currentUserId && (
+                <div className="space-y-2">
+                  <Label className="flex items-center gap-2">
+                    <Key className="h-4 w-4 text-emerald-400" />
+                    Safety Number
+                  </Label>
+                  {!selectedUserProfile.publicKey ? (
+                    <p className="text-sm text-amber-400">This user has not published a public key.</p>
+                  ) : safetyNumber ? (
+                    <>
+                      <div className="grid grid-cols-4 gap-2 bg-slate-700 p-3 rounded-lg font-mono text-sm text-center">
+                        {formatSafetyNumber(safetyNumber).map((group, index) => (
+                          <span key={index}>{group}</span>
+                        ))}
+                      </div>
+                      <p className="text-xs text-slate-400">
+                        Compare these numbers with {selectedUserProfile.nickname} in person or over a trusted channel. If
+                        they match, nobody has substituted their key.
+                      </p>
+                    </>
+                  ) : (
+                    <p className="text-sm text-slate-400">Computing safety number...</p>
+                  )}
+                </div>
+              )}
+              {selectedUserProfile.id !== currentUserId && selectedUserProfile.publicKey && (
+                <div className="flex items-center gap-2 text-xs text-slate-400">
+                  <Lock className="h-3 w-3" />
+                  <span>
+                    Keys sent to them use {KEY_EXCHANGE_LABELS[keyExchangeFor(selectedUserProfile)]}
+                    {keyExchangeFor(selectedUserProfile) === "rsa-oaep" && ", their client has no post-quantum key"}
+                  </span>
+                </div>
+              )}
+              {selectedUserProfile.id !== currentUserId && selectedContact && (
+                <div className="space-y-2">
+                  <Label className="flex items-center gap-2">
+                    <ShieldCheck className="h-4 w-4 text-emerald-400" />
+                    Trust
+                  </Label>
+                  <div className="grid grid-cols-3 gap-2">
+                    {TRUST_OPTIONS.map((option) => (
+                      <Button
+                        key={option.value}
+                        size="sm"
+                        variant={selectedContact.trust === option.value ? "default" : "outline"}
+                        disabled={option.value === "verified" && !!selectedContact.pendingChange}
+                        onClick={() => handleSetTrust(option.value)}
+                        className={
+                          selectedContact.trust === option.value
+                            ? option.value === "blocked"
+                              ? "bg-red-600 hover:bg-red-700"
+                              : ""
+                            : "border-slate-600 text-slate-300 hover:bg-slate-700"
+                        }
+                      >
+                        {option.value === "blocked" && <Ban className="h-4 w-4 mr-1" />}
+                        {option.label}
+                      </Button>
+                    ))}
+                  </div>
+                  <p className="text-xs text-slate-400">
+                    First seen {new Date(selectedContact.firstSeen).toLocaleDateString()}. Mark them verified once the
+                    safety numbers match; messages from blocked contacts are hidden on this device.
+                  </p>
                 </div>
               )}
             </div>
@@ -1455,6 +6103,256 @@ export default function ChatApp() {
             >
               Close
             </Button>
+            {selectedUserProfile && selectedUserProfile.id !== currentUserId && (
+              <Button
+                onClick={() => handleStartDirectMessage(selectedUserProfile)}
+                disabled={!selectedUserProfile.agreementKey || selectedContact?.trust === "blocked"}
+              >
+                <MessageCircle className="h-4 w-4 mr-2" />
+                Message
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={showLinkDeviceDialog} onOpenChange={(open) => !open && handleCloseDeviceLink()}>
+        <DialogContent className="sm:max-w-md bg-slate-800 border border-slate-700 text-white">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <MonitorSmartphone className="h-5 w-5" />
+              Link a Device
+            </DialogTitle>
+            <DialogDescription className="text-slate-400">
+              On the new device choose "Link to Existing Device", then scan this code or type the digits. The new
+              device makes its own keys; this one vouches for them and sends your room keys encrypted to that device
+              only. The code works once and expires in 5 minutes.
+            </DialogDescription>
+          </DialogHeader>
+          {linkStatus === "waiting" && linkQrCode && linkSession && (
+            <div className="flex flex-col items-center gap-3">
+              <img src={linkQrCode} alt="Device pairing code" className="h-56 w-56 rounded-md bg-white p-2" />
+              <p className="font-mono text-2xl tracking-[0.3em] text-emerald-400">{linkSession.code}</p>
+              <p className="text-xs text-slate-400">Waiting for the new device...</p>
+            </div>
+          )}
+          {linkStatus === "linked" && (
+            <p className="text-sm text-emerald-400">Device linked. It is now signed in as {currentAccount?.nickname}.</p>
+          )}
+          {linkStatus === "expired" && <p className="text-sm text-amber-400">The code expired. Start again.</p>}
+          {linkStatus === "failed" && <p className="text-sm text-red-400">{linkError || "Pairing failed."}</p>}
+          <DialogFooter className="bg-slate-700 border-t border-slate-600">
+            {(linkStatus === "failed" || linkStatus === "expired") && (
+              <Button onClick={handleStartDeviceLink}>New Code</Button>
+            )}
+            <Button
+              variant="outline"
+              onClick={handleCloseDeviceLink}
+              className="border-slate-600 text-slate-300 hover:bg-slate-700"
+            >
+              {linkStatus === "linked" ? "Done" : "Cancel"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!twoFactorSetup} onOpenChange={(open) => !open && setTwoFactorSetup(null)}>
+        <DialogContent className="sm:max-w-md bg-slate-800 border border-slate-700 text-white">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Shield className="h-5 w-5" />
+              Set Up Two-Factor
+            </DialogTitle>
+            <DialogDescription className="text-slate-400">
+              Scan the code with your authenticator app, or enter the key by hand. Save the recovery codes somewhere
+              safe: each one signs you in once if you lose the app.
+            </DialogDescription>
+          </DialogHeader>
+          {twoFactorSetup && (
+            <div className="space-y-4">
+              <div className="flex flex-col items-center gap-2">
+                <img
+                  src={twoFactorSetup.qrCode}
+                  alt="Authenticator setup code"
+                  className="h-48 w-48 rounded-md bg-white p-2"
+                />
+                <p className="font-mono text-xs text-slate-300 break-all text-center">
+                  {twoFactorSetup.secret.match(/.{1,4}/g)?.join(" ")}
+                </p>
+              </div>
+              <div className="grid grid-cols-2 gap-1 rounded-md bg-slate-900 p-3 font-mono text-sm text-emerald-400">
+                {twoFactorSetup.recoveryCodes.map((code) => (
+                  <span key={code}>{code}</span>
+                ))}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="two-factor-password">Account Password</Label>
+                <Input
+                  id="two-factor-password"
+                  type="password"
+                  value={twoFactorPassword}
+                  onChange={(e) => setTwoFactorPassword(e.target.value)}
+                  className="bg-slate-700 border-slate-600 text-white placeholder-slate-400"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Code from the App</Label>
+                <InputOTP
+                  maxLength={TOTP_DIGITS}
+                  inputMode="numeric"
+                  pattern="^[0-9]*$"
+                  value={twoFactorSetupCode}
+                  onChange={setTwoFactorSetupCode}
+                >
+                  <InputOTPGroup>
+                    {Array.from({ length: TOTP_DIGITS }, (_, index) => (
+                      <InputOTPSlot key={index} index={index} className="border-slate-600 text-white" />
+                    ))}
+                  </InputOTPGroup>
+                </InputOTP>
+              </div>
+              {twoFactorSetupError && <p className="text-sm text-red-500">{twoFactorSetupError}</p>}
+            </div>
+          )}
+          <DialogFooter className="bg-slate-700 border-t border-slate-600">
+            <Button
+              variant="outline"
+              onClick={() => setTwoFactorSetup(null)}
+              className="border-slate-600 text-slate-300 hover:bg-slate-700"
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleEnableTwoFactor}
+              disabled={!twoFactorPassword || twoFactorSetupCode.length !== TOTP_DIGITS}
+            >
+              Enable
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={showBackupDialog} onOpenChange={setShowBackupDialog}>
+        <DialogContent className="sm:max-w-md bg-slate-800 border border-slate-700 text-white">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Download className="h-5 w-5" />
+              Back Up Account
+            </DialogTitle>
+            <DialogDescription className="text-slate-400">
+              Download your account, room keys and message history as one file encrypted with a passphrase. Anyone
+              with the file and the passphrase can sign in as you, so keep both safe. Your identity keys never leave
+              this device, so contacts see a key change when a backup is restored elsewhere.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="backup-passphrase">Passphrase</Label>
+              <Input
+                id="backup-passphrase"
+                type="password"
+                placeholder="Choose a backup passphrase..."
+                value={backupPassphrase}
+                onChange={(e) => setBackupPassphrase(e.target.value)}
+                className="bg-slate-700 border-slate-600 text-white placeholder-slate-400"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="backup-passphrase-confirm">Confirm Passphrase</Label>
+              <Input
+                id="backup-passphrase-confirm"
+                type="password"
+                placeholder="Repeat the passphrase..."
+                value={confirmBackupPassphrase}
+                onChange={(e) => setConfirmBackupPassphrase(e.target.value)}
+                className="bg-slate-700 border-slate-600 text-white placeholder-slate-400"
+              />
+              {confirmBackupPassphrase && backupPassphrase !== confirmBackupPassphrase && (
+                <p className="text-sm text-red-500">Passphrases do not match.</p>
+              )}
+            </div>
+            {backupError && <p className="text-sm text-red-500">{backupError}</p>}
+          </div>
+          <DialogFooter className="bg-slate-700 border-t border-slate-600">
+            <Button
+              variant="outline"
+              onClick={() => setShowBackupDialog(false)}
+              className="border-slate-600 text-slate-300 hover:bg-slate-700"
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleExportBackup}
+              disabled={!backupPassphrase || backupPassphrase !== confirmBackupPassphrase || isExportingBackup}
+            >
+              {isExportingBackup ? "Encrypting..." : "Download Backup"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={showVaultDialog} onOpenChange={setShowVaultDialog}>
+        <DialogContent className="sm:max-w-md bg-slate-800 border border-slate-700 text-white">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Key className="h-5 w-5" />
+              Encrypted Vault
+            </DialogTitle>
+            <DialogDescription className="text-slate-400">
+              {isVaultEnabled
+                ? "All local data on this device is encrypted with your vault passphrase."
+                : "Encrypt all local users, rooms, messages and accounts with a passphrase. You will need it to unlock NoFeds on this device."}
+            </DialogDescription>
+          </DialogHeader>
+          {!isVaultEnabled && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="vault-passphrase">Passphrase</Label>
+                <Input
+                  id="vault-passphrase"
+                  type="password"
+                  placeholder="Choose a vault passphrase..."
+                  value={newVaultPassphrase}
+                  onChange={(e) => setNewVaultPassphrase(e.target.value)}
+                  className="bg-slate-700 border-slate-600 text-white placeholder-slate-400"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="vault-passphrase-confirm">Confirm Passphrase</Label>
+                <Input
+                  id="vault-passphrase-confirm"
+                  type="password"
+                  placeholder="Repeat the passphrase..."
+                  value={confirmVaultPassphrase}
+                  onChange={(e) => setConfirmVaultPassphrase(e.target.value)}
+                  className="bg-slate-700 border-slate-600 text-white placeholder-slate-400"
+                />
+                {confirmVaultPassphrase && newVaultPassphrase !== confirmVaultPassphrase && (
+                  <p className="text-sm text-red-500">Passphrases do not match.</p>
+                )}
+              </div>
+            </div>
+          )}
+          <DialogFooter className="bg-slate-700 border-t border-slate-600">
+            <Button
+              variant="outline"
+              onClick={() => setShowVaultDialog(false)}
+              className="border-slate-600 text-slate-300 hover:bg-slate-700"
+            >
+              Cancel
+            </Button>
+            {isVaultEnabled ? (
+              <Button onClick={handleDisableVault} variant="destructive">
+                Disable Vault
+              </Button>
+            ) : (
+              <Button
+                onClick={handleEnableVault}
+                disabled={!newVaultPassphrase || newVaultPassphrase !== confirmVaultPassphrase}
+              >
+                Enable Vault
+              </Button>
+            )}
           </DialogFooter>
         </DialogContent>
       </Dialog>
@@ -1497,6 +6395,132 @@ export default function ChatApp() {
               />
               <p className="text-xs text-slate-400">{editStatusMessage.length}/100 characters</p>
             </div>
+            {currentAccount && !currentAccount.isTemporary && (
+              <div className="space-y-2 border-t border-slate-700 pt-4">
+                <Label htmlFor="duress-password">Duress Password</Label>
+                <p className="text-xs text-slate-400">
+                  Logging in with this password instead of your real one silently wipes this device and opens an empty
+                  account under your nickname. {PANIC_SHORTCUT_LABEL} or the Panic button wipes the device at any time.
+                </p>
+                {currentAccount.duressHash ? (
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm text-emerald-400">Duress password is set</span>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={handleRemoveDuressPassword}
+                      className="border-slate-600 text-slate-300 hover:bg-slate-700"
+                    >
+                      Remove
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="flex gap-2">
+                    <Input
+                      id="duress-password"
+                      type="password"
+                      placeholder="Choose a duress password..."
+                      value={duressPassword}
+                      onChange={(e) => setDuressPassword(e.target.value)}
+                      className="bg-slate-700 border-slate-600 text-white placeholder-slate-400"
+                    />
+                    <Button onClick={handleSetDuressPassword} disabled={!duressPassword}>
+                      Set
+                    </Button>
+                  </div>
+                )}
+                {duressError && <p className="text-sm text-red-500">{duressError}</p>}
+              </div>
+            )}
+            {currentAccount && !currentAccount.isTemporary && (
+              <div className="space-y-2 border-t border-slate-700 pt-4">
+                <Label>Auto-Lock</Label>
+                <p className="text-xs text-slate-400">
+                  Hide your chats and drop keys from memory after a period without activity in any tab.
+                </p>
+                <Select
+                  value={currentAccount.autoLockAfter ? String(currentAccount.autoLockAfter) : "off"}
+                  onValueChange={handleAutoLockChange}
+                >
+                  <SelectTrigger className="bg-slate-700 border-slate-600 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-slate-800 border-slate-700 text-white">
+                    <SelectItem value="off">Off</SelectItem>
+                    {AUTO_LOCK_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={String(option.value)}>
+                        After {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Label htmlFor="unlock-pin">Unlock PIN</Label>
+                {currentAccount.pinHash ? (
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm text-emerald-400">PIN is set</span>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={handleRemovePin}
+                      className="border-slate-600 text-slate-300 hover:bg-slate-700"
+                    >
+                      Remove
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="flex gap-2">
+                    <Input
+                      id="unlock-pin"
+                      type="password"
+                      inputMode="numeric"
+                      placeholder="4 to 8 digits..."
+                      value={newPin}
+                      onChange={(e) => setNewPin(e.target.value)}
+                      className="bg-slate-700 border-slate-600 text-white placeholder-slate-400"
+                    />
+                    <Button onClick={handleSetPin} disabled={!newPin}>
+                      Set
+                    </Button>
+                  </div>
+                )}
+                {pinError && <p className="text-sm text-red-500">{pinError}</p>}
+              </div>
+            )}
+            {currentAccount && !currentAccount.isTemporary && (
+              <div className="space-y-2 border-t border-slate-700 pt-4">
+                <Label>Two-Factor Authentication</Label>
+                {currentAccount.twoFactor ? (
+                  <div className="space-y-2">
+                    <p className="text-sm text-emerald-400">Enabled. Logging in asks for a code from your app.</p>
+                    <div className="flex gap-2">
+                      <Input
+                        type="password"
+                        placeholder="Password to disable..."
+                        value={twoFactorPassword}
+                        onChange={(e) => setTwoFactorPassword(e.target.value)}
+                        className="bg-slate-700 border-slate-600 text-white placeholder-slate-400"
+                      />
+                      <Button variant="destructive" onClick={handleDisableTwoFactor} disabled={!twoFactorPassword}>
+                        Disable
+                      </Button>
+                    </div>
+                    {twoFactorSetupError && <p className="text-sm text-red-500">{twoFactorSetupError}</p>}
+                  </div>
+                ) : (
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm text-slate-400">Require a code from an authenticator app</span>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={handleStartTwoFactorSetup}
+                      className="border-slate-600 text-slate-300 hover:bg-slate-700"
+                    >
+                      Set Up
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )}
           </div>
           <DialogFooter className="bg-slate-700 border-t border-slate-600">
             <Button
@@ -0,0 +1,89 @@
+// Salted PBKDF2 password hashing through WebCrypto. Hashes are stored as
+// self-describing strings so the iteration count or algorithm can be raised
+// later while older hashes keep verifying:
+//
+//   $pbkdf2-sha256$v=1$i=<iterations>$<base64 salt>$<base64 hash>
+
+export const PASSWORD_HASH_VERSION = 1
+export const DEFAULT_PBKDF2_ITERATIONS = 600000
+
+const HASH_PREFIX = "pbkdf2-sha256"
+const SALT_BYTES = 16
+const HASH_BITS = 256
+
+interface ParsedPasswordHash {
+  version: number
+  iterations: number
+  salt: Uint8Array
+  hash: Uint8Array
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
+}
+
+function fromBase64(value: string) {
+  return new Uint8Array(
+    atob(value)
+      .split("")
+      .map((c) => c.charCodeAt(0)),
+  )
+}
+
+async function pbkdf2(password: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> {
+  const baseKey = await window.crypto.subtle.importKey("raw", new TextEncoder().encode(password), "PBKDF2", false, [
+    "deriveBits",
+  ])
+  const bits = await window.crypto.subtle.deriveBits(
+    { name: "PBKDF2", salt: new Uint8Array(salt), iterations, hash: "SHA-256" },
+    baseKey,
+    HASH_BITS,
+  )
+  return new Uint8Array(bits)
+}
+
+function parsePasswordHash(stored: string): ParsedPasswordHash | null {
+  const match = /^\$([a-z0-9-]+)\$v=(\d+)\$i=(\d+)\$([A-Za-z0-9+/=]+)\$([A-Za-z0-9+/=]+)$/.exec(stored)
+  if (!match || match[1] !== HASH_PREFIX) return null
+
+  return {
+    version: Number(match[2]),
+    iterations: Number(match[3]),
+    salt: fromBase64(match[4]),
+    hash: fromBase64(match[5]),
+  }
+}
+
+// Compare without returning early so timing doesn't reveal the matching prefix
+function constantTimeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false
+  let diff = 0
+  for (let i = 0; i < a.length; i++) {
+    diff |= a[i] ^ b[i]
+  }
+  return diff === 0
+}
+
+export function isPasswordHash(value: string | undefined): boolean {
+  return !!value && parsePasswordHash(value) !== null
+}
+
+export async function hashPassword(password: string, iterations = DEFAULT_PBKDF2_ITERATIONS): Promise<string> {
+  const salt = window.crypto.getRandomValues(new Uint8Array(SALT_BYTES))
+  const hash = await pbkdf2(password, salt, iterations)
+  return `$${HASH_PREFIX}$v=${PASSWORD_HASH_VERSION}$i=${iterations}$${toBase64(salt)}$${toBase64(hash)}`
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const parsed = parsePasswordHash(stored)
+  if (!parsed) return false
+
+  const hash = await pbkdf2(password, parsed.salt, parsed.iterations)
+  return constantTimeEqual(hash, parsed.hash)
+}
+
+// True when a hash was made with an older format or fewer iterations than we use now
+export function needsRehash(stored: string, iterations = DEFAULT_PBKDF2_ITERATIONS): boolean {
+  const parsed = parsePasswordHash(stored)
+  return !parsed || parsed.version < PASSWORD_HASH_VERSION || parsed.iterations < iterations
+}
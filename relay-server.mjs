@@ -0,0 +1,62 @@
+// Minimal WebSocket relay for NoFeds clients on a LAN. Clients connected to the
+// same path form a group and every frame is forwarded to the rest of the group.
+// The relay never holds keys: it only accepts operations sealed under the
+// group's sync passphrase and device-pairing messages, and drops anything that
+// looks like plaintext. Every client in a group enters the same sync passphrase
+// on its join screen; it is separate from each device's vault passphrase.
+//
+//   PORT=8787 node relay-server.mjs
+//   NEXT_PUBLIC_NOFEDS_RELAY_URL=ws://<relay-host>:8787/<team> next dev
+
+import { WebSocketServer } from "ws"
+
+const port = Number(process.env.PORT || 8787)
+const maxPayload = Number(process.env.MAX_PAYLOAD || 5 * 1024 * 1024)
+
+// Sync frames use the vault's sealed format, see lib/vault createSyncKdfParams
+const VAULT_FORMAT = "nofeds-vault"
+// Pairing messages are sealed by their own ECDH exchange, see lib/device-link
+const LINK_FORMAT = "nofeds-link"
+
+/** @type {Map<string, Set<import("ws").WebSocket>>} */
+const groups = new Map()
+
+function isCiphertextFrame(frame) {
+  try {
+    const message = JSON.parse(frame)
+    const format = message.data?.format
+    return typeof message?.type === "string" && (format === VAULT_FORMAT || format === LINK_FORMAT)
+  } catch {
+    return false
+  }
+}
+
+const server = new WebSocketServer({ port, maxPayload })
+
+server.on("connection", (socket, request) => {
+  const group = new URL(request.url || "/", "ws://relay").pathname
+  if (!groups.has(group)) groups.set(group, new Set())
+  const peers = groups.get(group)
+  peers.add(socket)
+  console.log(`[relay] peer joined ${group} (${peers.size} connected)`)
+
+  socket.on("message", (data, isBinary) => {
+    const frame = isBinary ? null : data.toString()
+    if (!frame || !isCiphertextFrame(frame)) {
+      console.warn(`[relay] dropped non-ciphertext frame in ${group}`)
+      return
+    }
+
+    for (const peer of peers) {
+      if (peer !== socket && peer.readyState === peer.OPEN) peer.send(frame)
+    }
+  })
+
+  socket.on("close", () => {
+    peers.delete(socket)
+    if (peers.size === 0) groups.delete(group)
+    console.log(`[relay] peer left ${group} (${peers.size} connected)`)
+  })
+})
+
+server.on("listening", () => console.log(`[relay] listening on ws://0.0.0.0:${port}`))
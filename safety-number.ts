@@ -0,0 +1,51 @@
+// Signal-style safety numbers. Each side derives a 30-digit fingerprint from its
+// SPKI public key and a stable identifier; both fingerprints are concatenated in
+// sorted order so the two participants see the same 60-digit number.
+
+const FINGERPRINT_VERSION = new Uint8Array([0, 0])
+const FINGERPRINT_ITERATIONS = 5200
+
+export interface SafetyNumberParty {
+  publicKey: string // base64 SPKI
+  identifier: string
+}
+
+function concatBytes(...parts: Uint8Array[]) {
+  const result = new Uint8Array(parts.reduce((length, part) => length + part.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    result.set(part, offset)
+    offset += part.length
+  }
+  return result
+}
+
+async function fingerprintDigits({ publicKey, identifier }: SafetyNumberParty): Promise<string> {
+  const keyBytes = new Uint8Array(
+    atob(publicKey)
+      .split("")
+      .map((c) => c.charCodeAt(0)),
+  )
+
+  let hash = concatBytes(FINGERPRINT_VERSION, keyBytes, new TextEncoder().encode(identifier))
+  for (let i = 0; i < FINGERPRINT_ITERATIONS; i++) {
+    hash = new Uint8Array(await window.crypto.subtle.digest("SHA-512", concatBytes(hash, keyBytes)))
+  }
+
+  // Six 5-digit groups, each taken from 5 bytes of the digest
+  let digits = ""
+  for (let i = 0; i < 30; i += 5) {
+    const chunk = hash[i] * 2 ** 32 + hash[i + 1] * 2 ** 24 + hash[i + 2] * 2 ** 16 + hash[i + 3] * 2 ** 8 + hash[i + 4]
+    digits += (chunk % 100000).toString().padStart(5, "0")
+  }
+  return digits
+}
+
+export async function computeSafetyNumber(local: SafetyNumberParty, remote: SafetyNumberParty): Promise<string> {
+  const [localDigits, remoteDigits] = await Promise.all([fingerprintDigits(local), fingerprintDigits(remote)])
+  return localDigits < remoteDigits ? localDigits + remoteDigits : remoteDigits + localDigits
+}
+
+export function formatSafetyNumber(safetyNumber: string): string[] {
+  return safetyNumber.match(/.{1,5}/g) || []
+}
@@ -0,0 +1,129 @@
+// Sender-key ratchets for group rooms, modelled on Signal's sender keys. Each
+// member encrypts with their own symmetric chain: every message advances the
+// chain key through HMAC-SHA256 and uses a one-off message key, and old chain
+// and message keys are discarded. Someone who steals a chain key today can
+// read forward from that point, but never anything sent before it.
+
+export const MAX_SKIPPED_MESSAGE_KEYS = 2000
+export const SENDER_KEY_ROTATION_INTERVAL = 100
+
+export interface SenderChainState {
+  distributionId: string
+  chainKey: string // base64, the key for `iteration`
+  iteration: number
+  // Message keys for iterations we skipped past but haven't seen yet
+  skipped: { [iteration: number]: string }
+}
+
+// What a sender hands to each member, wrapped with that member's public key
+export interface SenderKeyDistribution {
+  distributionId: string
+  chainKey: string
+  iteration: number
+}
+
+const MESSAGE_KEY_SEED = new Uint8Array([1])
+const CHAIN_KEY_SEED = new Uint8Array([2])
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
+}
+
+function fromBase64(value: string) {
+  return new Uint8Array(
+    atob(value)
+      .split("")
+      .map((c) => c.charCodeAt(0)),
+  )
+}
+
+async function hmac(key: Uint8Array, data: Uint8Array): Promise<Uint8Array> {
+  const hmacKey = await window.crypto.subtle.importKey(
+    "raw",
+    new Uint8Array(key),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  )
+  return new Uint8Array(await window.crypto.subtle.sign("HMAC", hmacKey, new Uint8Array(data)))
+}
+
+async function stepChain(chainKey: string): Promise<{ messageKey: string; nextChainKey: string }> {
+  const key = fromBase64(chainKey)
+  const [messageKey, nextChainKey] = await Promise.all([hmac(key, MESSAGE_KEY_SEED), hmac(key, CHAIN_KEY_SEED)])
+  return { messageKey: toBase64(messageKey), nextChainKey: toBase64(nextChainKey) }
+}
+
+function importMessageKey(messageKey: string): Promise<CryptoKey> {
+  return window.crypto.subtle.importKey("raw", fromBase64(messageKey), { name: "AES-GCM" }, false, [
+    "encrypt",
+    "decrypt",
+  ])
+}
+
+export function createSenderChain(): SenderChainState {
+  return {
+    distributionId: window.crypto.randomUUID(),
+    chainKey: toBase64(window.crypto.getRandomValues(new Uint8Array(32))),
+    iteration: 0,
+    skipped: {},
+  }
+}
+
+export function chainFromDistribution(distribution: SenderKeyDistribution): SenderChainState {
+  return { ...distribution, skipped: {} }
+}
+
+export function distributionFromChain({ distributionId, chainKey, iteration }: SenderChainState): SenderKeyDistribution {
+  return { distributionId, chainKey, iteration }
+}
+
+// Seal with the current message key and return the advanced chain; the caller must drop the old state
+export async function ratchetEncrypt(
+  state: SenderChainState,
+  seal: (messageKey: CryptoKey) => Promise<string>,
+): Promise<{ state: SenderChainState; iteration: number; ciphertext: string }> {
+  const { messageKey, nextChainKey } = await stepChain(state.chainKey)
+  return {
+    state: { ...state, chainKey: nextChainKey, iteration: state.iteration + 1 },
+    iteration: state.iteration,
+    ciphertext: await seal(await importMessageKey(messageKey)),
+  }
+}
+
+// Throws if the message key for `iteration` is already gone or `open` rejects the ciphertext
+export async function ratchetDecrypt(
+  state: SenderChainState,
+  iteration: number,
+  open: (messageKey: CryptoKey) => Promise<string>,
+): Promise<{ state: SenderChainState; plaintext: string }> {
+  const skipped = { ...state.skipped }
+  let { chainKey, iteration: current } = state
+  let messageKey: string | undefined
+
+  if (iteration < current) {
+    messageKey = skipped[iteration]
+    if (!messageKey) throw new Error("Message key no longer available")
+    delete skipped[iteration]
+  } else {
+    if (iteration - current > MAX_SKIPPED_MESSAGE_KEYS) throw new Error("Too many skipped messages")
+
+    while (current <= iteration) {
+      const step = await stepChain(chainKey)
+      if (current < iteration) skipped[current] = step.messageKey
+      else messageKey = step.messageKey
+      chainKey = step.nextChainKey
+      current += 1
+    }
+  }
+
+  const plaintext = await open(await importMessageKey(messageKey!))
+
+  // Keep the skipped-key cache bounded by dropping the oldest entries
+  const skippedIterations = Object.keys(skipped).map(Number).sort((a, b) => a - b)
+  skippedIterations.slice(0, Math.max(0, skippedIterations.length - MAX_SKIPPED_MESSAGE_KEYS)).forEach((i) => {
+    delete skipped[i]
+  })
+
+  return { state: { ...state, chainKey, iteration: current, skipped }, plaintext }
+}
@@ -0,0 +1,144 @@
+// Transports carry sync messages between NoFeds clients. RealTimeSync owns
+// persistence and the vault; a transport only moves opaque JSON messages.
+
+// Payloads arrive from other tabs and peers, so receivers check them before use
+export type SyncMessage =
+  | { type: "operations"; data: unknown } // Logged operations, sealed unless both ends are this browser
+  | { type: "device-link"; data: unknown } // See lib/device-link
+  | { type: "session"; data: unknown } // Activity and auto-lock events between tabs
+  | { type: "vault-disabled" }
+  | { type: "wipe" }
+
+export interface SyncTransport {
+  readonly name: string
+  // Remote transports leave this device, so RealTimeSync only hands them sealed snapshots
+  readonly isRemote: boolean
+  // Clients sharing a group see each other's messages; remote groups share a sync passphrase as well
+  readonly group: string
+  send(message: SyncMessage): void
+  // Returns a function that removes the handler
+  onMessage(handler: (message: SyncMessage) => void): () => void
+  close(): void
+}
+
+// Syncs tabs of the same browser profile
+export class BroadcastChannelTransport implements SyncTransport {
+  readonly name = "broadcast-channel"
+  readonly isRemote = false
+  readonly group: string
+  private channel: BroadcastChannel | null = null
+
+  constructor(channelName = "nofeds-sync") {
+    this.group = channelName
+    try {
+      this.channel = new BroadcastChannel(channelName)
+      console.log("[v0] BroadcastChannel created successfully")
+    } catch (error) {
+      console.error("[v0] Failed to create BroadcastChannel:", error)
+      this.channel = null
+    }
+  }
+
+  send(message: SyncMessage) {
+    this.channel?.postMessage(message)
+  }
+
+  onMessage(handler: (message: SyncMessage) => void) {
+    const channel = this.channel
+    if (!channel) {
+      console.warn("[v0] BroadcastChannel not available, skipping onMessage")
+      return () => {}
+    }
+
+    const listener = (event: MessageEvent) => handler(event.data)
+    channel.addEventListener("message", listener)
+    return () => channel.removeEventListener("message", listener)
+  }
+
+  close() {
+    this.channel?.close()
+    this.channel = null
+  }
+}
+
+const MAX_QUEUED_FRAMES = 100
+const MAX_RECONNECT_DELAY = 30000
+
+// Syncs clients on different machines through the relay in relay-server.mjs
+export class WebSocketTransport implements SyncTransport {
+  readonly name = "websocket"
+  readonly isRemote = true
+  readonly group: string
+  private socket: WebSocket | null = null
+  private handlers = new Set<(message: SyncMessage) => void>()
+  private queue: string[] = []
+  private reconnectDelay = 1000
+  private closed = false
+
+  constructor(private url: string) {
+    // The relay groups clients by path, and peers may reach it under different host names
+    this.group = new URL(url, "ws://relay").pathname
+    this.connect()
+  }
+
+  private connect() {
+    if (this.closed || typeof WebSocket === "undefined") return
+
+    try {
+      const socket = new WebSocket(this.url)
+      socket.onopen = () => {
+        console.log("[v0] Connected to relay", this.url)
+        this.reconnectDelay = 1000
+        this.queue.splice(0).forEach((frame) => socket.send(frame))
+      }
+      socket.onmessage = (event) => {
+        try {
+          const message = JSON.parse(event.data)
+          this.handlers.forEach((handler) => handler(message))
+        } catch (error) {
+          console.error("[v0] Dropped malformed relay frame:", error)
+        }
+      }
+      socket.onclose = () => {
+        this.socket = null
+        if (this.closed) return
+        setTimeout(() => this.connect(), this.reconnectDelay)
+        this.reconnectDelay = Math.min(this.reconnectDelay * 2, MAX_RECONNECT_DELAY)
+      }
+      this.socket = socket
+    } catch (error) {
+      console.error("[v0] Failed to connect to relay:", error)
+    }
+  }
+
+  send(message: SyncMessage) {
+    const frame = JSON.stringify(message)
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(frame)
+      return
+    }
+
+    this.queue.push(frame)
+    if (this.queue.length > MAX_QUEUED_FRAMES) this.queue.shift()
+  }
+
+  onMessage(handler: (message: SyncMessage) => void) {
+    this.handlers.add(handler)
+    return () => {
+      this.handlers.delete(handler)
+    }
+  }
+
+  close() {
+    this.closed = true
+    this.handlers.clear()
+    this.socket?.close()
+    this.socket = null
+  }
+}
+
+// Use the relay when one is configured, otherwise stay within this browser
+export function createSyncTransport(): SyncTransport {
+  const relayUrl = process.env.NEXT_PUBLIC_NOFEDS_RELAY_URL
+  return relayUrl ? new WebSocketTransport(relayUrl) : new BroadcastChannelTransport()
+}
@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest"
+import {
+  base32Decode,
+  base32Encode,
+  createRecoveryCodes,
+  createTotpSecret,
+  generateHotp,
+  generateTotp,
+  hashRecoveryCode,
+  totpCounter,
+  TOTP_PERIOD,
+  verifyTotp,
+  type TotpAlgorithm,
+} from "@/lib/totp"
+
+const ascii = (value: string) => new TextEncoder().encode(value)
+
+// RFC 6238 Appendix B: the seed for each hash is the ASCII digits repeated to the hash's block size
+const RFC6238_SEEDS: Record<TotpAlgorithm, string> = {
+  "SHA-1": base32Encode(ascii("12345678901234567890")),
+  "SHA-256": base32Encode(ascii("12345678901234567890123456789012")),
+  "SHA-512": base32Encode(ascii("1234567890123456789012345678901234567890123456789012345678901234")),
+}
+
+const RFC6238_VECTORS: [number, Record<TotpAlgorithm, string>][] = [
+  [59, { "SHA-1": "94287082", "SHA-256": "46119246", "SHA-512": "90693936" }],
+  [1111111109, { "SHA-1": "07081804", "SHA-256": "68084774", "SHA-512": "25091201" }],
+  [1111111111, { "SHA-1": "14050471", "SHA-256": "67062674", "SHA-512": "99943326" }],
+  [1234567890, { "SHA-1": "89005924", "SHA-256": "91819424", "SHA-512": "93441116" }],
+  [2000000000, { "SHA-1": "69279037", "SHA-256": "90698825", "SHA-512": "38618901" }],
+  [20000000000, { "SHA-1": "65353130", "SHA-256": "77737706", "SHA-512": "47863826" }],
+]
+
+describe("RFC 6238 test vectors", () => {
+  describe.each(["SHA-1", "SHA-256", "SHA-512"] as TotpAlgorithm[])("%s", (algorithm) => {
+    it.each(RFC6238_VECTORS)("generates the code for T = %i", async (seconds, codes) => {
+      const code = await generateTotp(RFC6238_SEEDS[algorithm], seconds * 1000, { algorithm, digits: 8 })
+      expect(code).toBe(codes[algorithm])
+    })
+
+    it.each(RFC6238_VECTORS)("verifies the code for T = %i", async (seconds, codes) => {
+      const options = { algorithm, digits: 8, time: seconds * 1000 }
+      expect(await verifyTotp(RFC6238_SEEDS[algorithm], codes[algorithm], options)).toBe(totpCounter(seconds * 1000))
+    })
+  })
+})
+
+describe("RFC 4226 test vectors", () => {
+  const codes = ["755224", "287082", "359152", "969429", "338314", "254676", "287922", "162583", "399871", "520489"]
+
+  it.each(codes.map((code, counter) => [counter, code]))("generates the HOTP for count %i", async (counter, code) => {
+    expect(await generateHotp(ascii("12345678901234567890"), Number(counter))).toBe(code)
+  })
+})
+
+describe("verifyTotp", () => {
+  const secret = createTotpSecret()
+  const now = 1_700_000_000_000
+  const step = TOTP_PERIOD * 1000
+  const current = totpCounter(now)
+
+  it("accepts codes one step either side of now", async () => {
+    expect(await verifyTotp(secret, await generateTotp(secret, now - step), { time: now })).toBe(current - 1)
+    expect(await verifyTotp(secret, await generateTotp(secret, now), { time: now })).toBe(current)
+    expect(await verifyTotp(secret, await generateTotp(secret, now + step), { time: now })).toBe(current + 1)
+  })
+
+  it("rejects codes outside the window", async () => {
+    expect(await verifyTotp(secret, await generateTotp(secret, now - 2 * step), { time: now })).toBeNull()
+    expect(await verifyTotp(secret, await generateTotp(secret, now + 2 * step), { time: now })).toBeNull()
+    expect(await verifyTotp(secret, await generateTotp(secret, now - step), { time: now, window: 0 })).toBeNull()
+  })
+
+  it("refuses a code from a step already used", async () => {
+    const code = await generateTotp(secret, now)
+    const counter = await verifyTotp(secret, code, { time: now })
+    expect(counter).toBe(current)
+    expect(await verifyTotp(secret, code, { time: now, lastCounter: counter! })).toBeNull()
+    // Earlier steps still inside the window are refused too
+    const previous = await generateTotp(secret, now - step)
+    expect(await verifyTotp(secret, previous, { time: now, lastCounter: counter! })).toBeNull()
+    // A later step still works
+    const next = await generateTotp(secret, now + step)
+    expect(await verifyTotp(secret, next, { time: now, lastCounter: counter! })).toBe(current + 1)
+  })
+
+  it("rejects malformed codes", async () => {
+    const code = await generateTotp(secret, now)
+    for (const input of ["", code.slice(1), `${code}0`, `${code.slice(1)}a`, ` ${code.slice(1)}`]) {
+      expect(await verifyTotp(secret, input, { time: now })).toBeNull()
+    }
+  })
+})
+
+describe("base32", () => {
+  // RFC 4648 section 10, without padding
+  it.each([
+    ["", ""],
+    ["f", "MY"],
+    ["fo", "MZXQ"],
+    ["foo", "MZXW6"],
+    ["foob", "MZXW6YQ"],
+    ["fooba", "MZXW6YTB"],
+    ["foobar", "MZXW6YTBOI"],
+  ])("encodes %j as %s", (input, encoded) => {
+    expect(base32Encode(ascii(input))).toBe(encoded)
+    expect(base32Decode(encoded)).toEqual(ascii(input))
+  })
+
+  it("round-trips random bytes of every length", () => {
+    for (let length = 0; length <= 64; length++) {
+      const bytes = crypto.getRandomValues(new Uint8Array(length))
+      expect(base32Decode(base32Encode(bytes))).toEqual(bytes)
+    }
+  })
+
+  it("accepts lowercase, spaces, dashes and padding", () => {
+    expect(base32Decode("mzxw 6ytb-oi======")).toEqual(ascii("foobar"))
+  })
+
+  it("rejects characters outside the alphabet", () => {
+    expect(() => base32Decode("MZXW1")).toThrow("Invalid base32 character")
+  })
+})
+
+describe("recovery codes", () => {
+  it("creates distinct codes in the xxxxx-xxxxx form", () => {
+    const codes = createRecoveryCodes()
+    expect(new Set(codes).size).toBe(codes.length)
+    codes.forEach((code) => expect(code).toMatch(/^[a-z2-7]{5}-[a-z2-7]{5}$/))
+  })
+
+  it("hashes a code the same however it was typed", async () => {
+    expect(await hashRecoveryCode("ABCDE-FGH23")).toBe(await hashRecoveryCode("abcde fgh23"))
+  })
+})
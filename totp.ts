@@ -0,0 +1,152 @@
+// Time-based one-time passwords (RFC 6238) on top of HOTP (RFC 4226), using
+// WebCrypto HMAC. Secrets travel as RFC 4648 base32, the form authenticator
+// apps expect in otpauth:// URIs.
+
+export const TOTP_DIGITS = 6
+export const TOTP_PERIOD = 30 // seconds
+// Codes from one step either side of now are accepted to allow for clock drift
+export const TOTP_WINDOW = 1
+export const RECOVERY_CODE_COUNT = 10
+
+export type TotpAlgorithm = "SHA-1" | "SHA-256" | "SHA-512"
+
+export interface TotpOptions {
+  algorithm?: TotpAlgorithm
+  digits?: number
+  period?: number
+}
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567"
+
+export function base32Encode(bytes: Uint8Array): string {
+  let output = ""
+  let buffer = 0
+  let bits = 0
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(buffer >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(buffer << (5 - bits)) & 31]
+  return output
+}
+
+// Accepts lowercase, spaces and padding, as people type secrets in all of those forms
+export function base32Decode(value: string): Uint8Array {
+  const clean = value.toUpperCase().replace(/[\s=-]/g, "")
+  const bytes: number[] = []
+  let buffer = 0
+  let bits = 0
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char)
+    if (index === -1) throw new Error("Invalid base32 character")
+    buffer = (buffer << 5) | index
+    bits += 5
+    if (bits >= 8) {
+      bytes.push((buffer >>> (bits - 8)) & 0xff)
+      bits -= 8
+    }
+  }
+  return new Uint8Array(bytes)
+}
+
+// 160 bits, the HMAC-SHA1 key size RFC 4226 recommends
+export function createTotpSecret(): string {
+  return base32Encode(window.crypto.getRandomValues(new Uint8Array(20)))
+}
+
+export function totpUri(secret: string, accountName: string, issuer = "NoFeds"): string {
+  const label = `${encodeURIComponent(issuer)}:${encodeURIComponent(accountName)}`
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: "SHA1",
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD),
+  })
+  return `otpauth://totp/${label}?${params}`
+}
+
+export async function generateHotp(
+  secret: Uint8Array,
+  counter: number,
+  { algorithm = "SHA-1", digits = TOTP_DIGITS }: TotpOptions = {},
+): Promise<string> {
+  const message = new Uint8Array(8)
+  const view = new DataView(message.buffer)
+  view.setUint32(0, Math.floor(counter / 2 ** 32))
+  view.setUint32(4, counter >>> 0)
+
+  const key = await window.crypto.subtle.importKey(
+    "raw",
+    new Uint8Array(secret),
+    { name: "HMAC", hash: algorithm },
+    false,
+    ["sign"],
+  )
+  const mac = new Uint8Array(await window.crypto.subtle.sign("HMAC", key, message))
+
+  // Dynamic truncation, RFC 4226 section 5.3
+  const offset = mac[mac.length - 1] & 0x0f
+  const binary =
+    ((mac[offset] & 0x7f) << 24) | (mac[offset + 1] << 16) | (mac[offset + 2] << 8) | mac[offset + 3]
+  return String(binary % 10 ** digits).padStart(digits, "0")
+}
+
+export function totpCounter(time = Date.now(), period = TOTP_PERIOD): number {
+  return Math.floor(time / 1000 / period)
+}
+
+export function generateTotp(secret: string, time = Date.now(), options: TotpOptions = {}): Promise<string> {
+  return generateHotp(base32Decode(secret), totpCounter(time, options.period), options)
+}
+
+function constantTimeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false
+  let diff = 0
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  return diff === 0
+}
+
+// Returns the time step the code belongs to, or null. Steps up to `lastCounter` are refused so a code works once
+export async function verifyTotp(
+  secret: string,
+  code: string,
+  {
+    time = Date.now(),
+    window = TOTP_WINDOW,
+    lastCounter = -1,
+    ...options
+  }: TotpOptions & { time?: number; window?: number; lastCounter?: number } = {},
+): Promise<number | null> {
+  const digits = options.digits ?? TOTP_DIGITS
+  if (!new RegExp(`^\\d{${digits}}$`).test(code)) return null
+
+  const key = base32Decode(secret)
+  const current = totpCounter(time, options.period)
+  let matched: number | null = null
+  // Check every step in the window so the time taken doesn't say which one matched
+  for (let counter = current - window; counter <= current + window; counter++) {
+    if (counter < 0 || counter <= lastCounter) continue
+    if (constantTimeEqual(await generateHotp(key, counter, options), code)) matched = counter
+  }
+  return matched
+}
+
+// Ten base32 characters (50 random bits) each, shown as xxxxx-xxxxx
+export function createRecoveryCodes(count = RECOVERY_CODE_COUNT): string[] {
+  return Array.from({ length: count }, () => {
+    const code = base32Encode(window.crypto.getRandomValues(new Uint8Array(7))).slice(0, 10).toLowerCase()
+    return `${code.slice(0, 5)}-${code.slice(5)}`
+  })
+}
+
+// Recovery codes are random enough that a plain SHA-256 keeps them out of storage without a slow KDF
+export async function hashRecoveryCode(code: string): Promise<string> {
+  const normalized = code.toLowerCase().replace(/[^a-z2-7]/g, "")
+  const digest = await window.crypto.subtle.digest("SHA-256", new TextEncoder().encode(normalized))
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("")
+}
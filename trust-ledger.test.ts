@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest"
+import { acceptKeyChange, observeIdentity, setTrust, type TrustLedger } from "@/lib/trust-ledger"
+
+const alice = { nickname: "alice", userId: "alice-1", publicKey: "key-a" }
+const replaced = { ...alice, userId: "alice-2", publicKey: "key-b" }
+
+describe("observeIdentity", () => {
+  it("trusts the first key on first use and leaves the ledger alone after", () => {
+    const ledger = observeIdentity({}, alice, 1)
+    expect(ledger.alice).toMatchObject({ publicKey: "key-a", trust: "unverified", changes: [] })
+    expect(observeIdentity(ledger, alice, 2)).toBe(ledger)
+  })
+
+  it("flags a different key once and drops verification", () => {
+    const verified = setTrust(observeIdentity({}, alice, 1), "alice", "verified")
+    const changed = observeIdentity(verified, replaced, 2)
+    expect(changed.alice.trust).toBe("unverified")
+    expect(changed.alice.pendingChange).toMatchObject({ previousPublicKey: "key-a", publicKey: "key-b" })
+    expect(observeIdentity(changed, replaced, 3)).toBe(changed)
+    expect(observeIdentity(changed, alice, 3)).toBe(changed)
+  })
+
+  it("flags going back to a key the user moved away from", () => {
+    let ledger: TrustLedger = observeIdentity(observeIdentity({}, alice, 1), replaced, 2)
+    ledger = acceptKeyChange(ledger, "alice", "verified")
+    expect(ledger.alice).toMatchObject({ publicKey: "key-b", trust: "verified", pendingChange: undefined })
+
+    const reverted = observeIdentity(ledger, alice, 3)
+    expect(reverted.alice.trust).toBe("unverified")
+    expect(reverted.alice.pendingChange).toMatchObject({ previousPublicKey: "key-b", publicKey: "key-a" })
+    expect(reverted.alice.changes).toHaveLength(2)
+    // Both identities still in the log settle instead of flagging each other on every pass
+    expect(observeIdentity(observeIdentity(reverted, replaced, 4), alice, 4)).toBe(reverted)
+  })
+
+  it("keeps a block through key changes", () => {
+    const blocked = setTrust(observeIdentity({}, alice, 1), "alice", "blocked")
+    expect(observeIdentity(blocked, replaced, 2).alice.trust).toBe("blocked")
+  })
+})
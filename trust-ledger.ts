@@ -0,0 +1,86 @@
+// Trust-on-first-use ledger of contacts' identity keys. Each device remembers
+// the first RSA-OAEP identity key it saw for every nickname, the same key the
+// safety number is derived from. A later identity under that nickname with a
+// different key is recorded as a key change and stays pending until the user
+// accepts it, so someone re-registering a nickname doesn't silently inherit
+// the trust the previous holder had.
+//
+// The ledger is local to the device (see lib/key-store) and never synced: what
+// this device has seen is exactly what it should warn about.
+
+export type TrustState = "unverified" | "verified" | "blocked"
+
+export interface KeyChange {
+  previousUserId: string
+  previousPublicKey: string
+  userId: string
+  publicKey: string
+  seenAt: number
+}
+
+export interface LedgerEntry {
+  nickname: string
+  userId: string
+  publicKey: string // First seen, or the last one the user accepted
+  firstSeen: number
+  trust: TrustState
+  pendingChange?: KeyChange // A different key seen since, not yet accepted
+  changes: KeyChange[] // Every key change seen, for the notices in shared rooms
+}
+
+export type TrustLedger = { [nickname: string]: LedgerEntry }
+
+// Returns the same ledger object when nothing changed, so callers can skip saving. Only the accepted key is
+// trusted; any other key is flagged once per acceptance, so every identity in the log can be observed on every
+// pass without piling up changes, and going back to a key the user moved away from is flagged again
+export function observeIdentity(
+  ledger: TrustLedger,
+  identity: { nickname: string; userId: string; publicKey: string },
+  now = Date.now(),
+): TrustLedger {
+  const { nickname, userId, publicKey } = identity
+  const entry = ledger[nickname]
+  if (!entry) {
+    return { ...ledger, [nickname]: { nickname, userId, publicKey, firstSeen: now, trust: "unverified", changes: [] } }
+  }
+
+  if (publicKey === entry.publicKey) return ledger
+  // Changes seen since the accepted key was last taken on; with no change to it, every change so far
+  const lastAccepted = entry.changes.map((change) => change.publicKey).lastIndexOf(entry.publicKey)
+  if (entry.changes.slice(lastAccepted + 1).some((change) => change.publicKey === publicKey)) return ledger
+
+  const change: KeyChange = {
+    previousUserId: entry.userId,
+    previousPublicKey: entry.publicKey,
+    userId,
+    publicKey,
+    seenAt: now,
+  }
+  return {
+    ...ledger,
+    [nickname]: {
+      ...entry,
+      // Verification was of the old key; a block stays until the user lifts it
+      trust: entry.trust === "blocked" ? "blocked" : "unverified",
+      pendingChange: change,
+      changes: [...entry.changes, change],
+    },
+  }
+}
+
+// Take the pending key as the one to trust from now on
+export function acceptKeyChange(ledger: TrustLedger, nickname: string, trust: TrustState): TrustLedger {
+  const entry = ledger[nickname]
+  if (!entry?.pendingChange) return ledger
+
+  const { userId, publicKey } = entry.pendingChange
+  return { ...ledger, [nickname]: { ...entry, userId, publicKey, trust, pendingChange: undefined } }
+}
+
+// Verifying means the accepted key, so it waits until a pending change is accepted; blocking never waits
+export function setTrust(ledger: TrustLedger, nickname: string, trust: TrustState): TrustLedger {
+  const entry = ledger[nickname]
+  if (!entry || entry.trust === trust) return ledger
+  if (trust === "verified" && entry.pendingChange) return ledger
+  return { ...ledger, [nickname]: { ...entry, trust } }
+}
@@ -0,0 +1,105 @@
+// Passphrase-sealed storage for the whole AppData snapshot. The key is derived
+// with PBKDF2 and the JSON is sealed with AES-GCM; the KDF parameters travel
+// with the ciphertext so any tab holding the passphrase can open it.
+
+export const VAULT_FORMAT = "nofeds-vault"
+export const VAULT_VERSION = 1
+export const VAULT_PBKDF2_ITERATIONS = 600000
+
+export interface VaultKdfParams {
+  name: "PBKDF2-SHA256"
+  iterations: number
+  salt: string
+}
+
+export interface SealedVault {
+  format: typeof VAULT_FORMAT
+  version: number
+  kdf: VaultKdfParams
+  iv: string
+  ciphertext: string
+}
+
+// Built in chunks so large snapshots don't overflow the argument list of fromCharCode
+function toBase64(bytes: Uint8Array): string {
+  let binary = ""
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+function fromBase64(value: string) {
+  const binary = atob(value)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+function associatedData() {
+  return new TextEncoder().encode(`${VAULT_FORMAT}:v${VAULT_VERSION}`)
+}
+
+export function isSealedVault(value: unknown): value is SealedVault {
+  return !!value && typeof value === "object" && (value as SealedVault).format === VAULT_FORMAT
+}
+
+export function createVaultKdfParams(iterations = VAULT_PBKDF2_ITERATIONS): VaultKdfParams {
+  const salt = window.crypto.getRandomValues(new Uint8Array(16))
+  return { name: "PBKDF2-SHA256", iterations, salt: toBase64(salt) }
+}
+
+// Every device in a sync group derives the same transport key from the group's shared passphrase, so the salt
+// comes from the group rather than from chance
+export async function createSyncKdfParams(group: string): Promise<VaultKdfParams> {
+  const salt = await window.crypto.subtle.digest("SHA-256", new TextEncoder().encode(`nofeds-sync:${group}`))
+  return { name: "PBKDF2-SHA256", iterations: VAULT_PBKDF2_ITERATIONS, salt: toBase64(new Uint8Array(salt)) }
+}
+
+export async function deriveVaultKey(passphrase: string, kdf: VaultKdfParams): Promise<CryptoKey> {
+  const baseKey = await window.crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"],
+  )
+  return window.crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt: fromBase64(kdf.salt), iterations: kdf.iterations, hash: "SHA-256" },
+    baseKey,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"],
+  )
+}
+
+export async function sealVault<T>(data: T, key: CryptoKey, kdf: VaultKdfParams): Promise<SealedVault> {
+  const iv = window.crypto.getRandomValues(new Uint8Array(12))
+  const encrypted = await window.crypto.subtle.encrypt(
+    { name: "AES-GCM", iv, additionalData: associatedData() },
+    key,
+    new TextEncoder().encode(JSON.stringify(data)),
+  )
+
+  return {
+    format: VAULT_FORMAT,
+    version: VAULT_VERSION,
+    kdf,
+    iv: toBase64(iv),
+    ciphertext: toBase64(new Uint8Array(encrypted)),
+  }
+}
+
+// Throws if the key is wrong or the ciphertext was tampered with
+export async function openVault<T>(sealed: SealedVault, key: CryptoKey): Promise<T> {
+  if (sealed.version !== VAULT_VERSION) throw new Error(`Unsupported vault version ${sealed.version}`)
+
+  const decrypted = await window.crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: fromBase64(sealed.iv), additionalData: associatedData() },
+    key,
+    fromBase64(sealed.ciphertext),
+  )
+  return JSON.parse(new TextDecoder().decode(decrypted))
+}
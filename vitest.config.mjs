@@ -0,0 +1,16 @@
+import { fileURLToPath } from "node:url"
+import { defineConfig } from "vitest/config"
+
+// The app imports its modules as @/lib/<name> and @/components/ui/<name>; here they all sit at the root
+const root = fileURLToPath(new URL(".", import.meta.url))
+
+export default defineConfig({
+  resolve: {
+    alias: [{ find: /^@\/(lib|components\/ui|components|hooks)\//, replacement: root }],
+  },
+  test: {
+    include: ["**/*.test.ts"],
+    exclude: ["node_modules/**"],
+    setupFiles: ["./vitest.setup.ts"],
+  },
+})
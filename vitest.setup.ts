@@ -0,0 +1,2 @@
+// The lib modules run in the browser and reach WebCrypto through window
+Object.assign(globalThis, { window: globalThis })